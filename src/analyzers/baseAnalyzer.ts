@@ -1,17 +1,21 @@
 import * as vscode from 'vscode';
-import { DetectedFeature, BaseAnalyzer, BaselineStatus } from '../types';
+import { DetectedFeature, BaseAnalyzer, BaselineStatus, BaselineTargetResult, BrowserTargetResult, AudienceSupport } from '../types';
 import { ErrorHandler, ErrorContext } from '../core/errorHandler';
+import { CompatibilityDataService } from '../services/compatibilityService';
+import { parseMediaQueryFeatures } from './mediaQueries';
 
 /**
  * Abstract base class for all feature analyzers
  */
 export abstract class AbstractBaseAnalyzer implements BaseAnalyzer {
     protected supportedLanguages: string[];
+    protected compatibilityService: CompatibilityDataService;
     protected errorHandler: ErrorHandler;
     protected maxContentSize: number = 10 * 1024 * 1024; // 10MB default
 
-    constructor(supportedLanguages: string[]) {
+    constructor(supportedLanguages: string[], compatibilityService?: CompatibilityDataService) {
         this.supportedLanguages = supportedLanguages;
+        this.compatibilityService = compatibilityService || new CompatibilityDataService();
         this.errorHandler = ErrorHandler.getInstance();
     }
 
@@ -38,6 +42,11 @@ export abstract class AbstractBaseAnalyzer implements BaseAnalyzer {
         baselineStatus: BaselineStatus,
         context?: string
     ): DetectedFeature {
+        const targetSupport = this.compatibilityService.evaluateBrowserTargets(id, baselineStatus);
+        const audienceSupport = this.compatibilityService.evaluateAudienceSupport(id, baselineStatus);
+        const baselineTarget = this.compatibilityService.evaluateBaselineTarget(baselineStatus);
+        const standardStatus = this.compatibilityService.getStandardStatus(id);
+
         return {
             id,
             name,
@@ -45,24 +54,83 @@ export abstract class AbstractBaseAnalyzer implements BaseAnalyzer {
             range,
             baselineStatus,
             context,
-            severity: this.determineSeverity(baselineStatus)
+            severity: this.determineSeverity(baselineStatus, targetSupport, audienceSupport, baselineTarget),
+            targetSupport: targetSupport.length > 0 ? targetSupport : undefined,
+            audienceSupport,
+            baselineTarget,
+            standardStatus: standardStatus || undefined
         };
     }
 
     /**
-     * Determine diagnostic severity based on baseline status
+     * Detect the media features in a media query list that starts at the given
+     * offset in the content, e.g. an @media prelude or a matchMedia() argument
+     */
+    protected detectMediaQueryFeatures(
+        content: string,
+        queryOffset: number,
+        query: string,
+        type: 'css' | 'javascript' | 'html'
+    ): DetectedFeature[] {
+        const features: DetectedFeature[] = [];
+
+        for (const mediaFeature of parseMediaQueryFeatures(query)) {
+            const baselineStatus = this.getBaselineStatus(mediaFeature.bcdKey);
+            if (!baselineStatus || !this.shouldAnalyzeFeature(mediaFeature.bcdKey)) {
+                continue;
+            }
+
+            const start = this.getPositionFromOffset(content, queryOffset + mediaFeature.index);
+            const range = this.createRange(start.line, start.character, start.line, start.character + mediaFeature.length);
+            features.push(this.createDetectedFeature(
+                mediaFeature.bcdKey,
+                mediaFeature.name,
+                type,
+                range,
+                baselineStatus,
+                `Media query: ${query.trim()}`
+            ));
+        }
+
+        return features;
+    }
+
+    /**
+     * Determine diagnostic severity based on baseline status, or on the
+     * browser targets and Baseline target when either is configured.
+     * Features below the support threshold are escalated one level.
      */
-    protected determineSeverity(baselineStatus: BaselineStatus): 'error' | 'warning' | 'info' {
+    protected determineSeverity(
+        baselineStatus: BaselineStatus,
+        targetSupport: BrowserTargetResult[] = [],
+        audienceSupport?: AudienceSupport,
+        baselineTarget?: BaselineTargetResult
+    ): 'error' | 'warning' | 'info' {
+        if (targetSupport.length > 0 || baselineTarget) {
+            const meetsTargets = targetSupport.every(result => result.supported) && (!baselineTarget || baselineTarget.meetsTarget);
+            return meetsTargets ? 'info' : 'error';
+        }
+
+        let severity: 'error' | 'warning' | 'info';
         switch (baselineStatus.status) {
             case 'limited_availability':
-                return 'error';
+                severity = 'error';
+                break;
             case 'newly_available':
-                return 'warning';
+                severity = 'warning';
+                break;
             case 'widely_available':
-                return 'info';
+                severity = 'info';
+                break;
             default:
-                return 'warning';
+                severity = 'warning';
+        }
+
+        if (audienceSupport && !audienceSupport.meetsThreshold) {
+            severity = severity === 'info' ? 'warning' : 'error';
         }
+
+        return severity;
     }
 
     /**
@@ -120,6 +188,14 @@ export abstract class AbstractBaseAnalyzer implements BaseAnalyzer {
         }
     }
 
+    /**
+     * Get the Baseline status for a BCD key, preferring the official status of
+     * the web feature it belongs to over one computed from raw BCD data
+     */
+    protected getBaselineStatus(bcdKey: string): BaselineStatus | null {
+        return this.compatibilityService.getFeatureStatus(bcdKey) || this.compatibilityService.getBCDStatus(bcdKey);
+    }
+
     /**
      * Check if a feature should be analyzed based on configuration
      */
@@ -1,15 +1,125 @@
 import * as vscode from 'vscode';
 import * as postcss from 'postcss';
-import { DetectedFeature, BaselineStatus } from '../types';
+import * as postcssScss from 'postcss-scss';
+import * as postcssSass from 'postcss-sass';
+import * as postcssLess from 'postcss-less';
+import * as postcssStyl from 'postcss-styl';
+import selectorParser from 'postcss-selector-parser';
+import valueParser from 'postcss-value-parser';
+import { DetectedFeature, BaselineStatus, FeatureGuard, VendorPrefixIssue } from '../types';
 import { AbstractBaseAnalyzer } from './baseAnalyzer';
 import { CompatibilityDataService } from '../services/compatibilityService';
 
+/**
+ * PostCSS syntaxes for the preprocessor languages; plain CSS uses postcss.parse
+ */
+const PREPROCESSOR_SYNTAXES: { [languageId: string]: postcss.Syntax } = {
+    scss: postcssScss,
+    sass: postcssSass,
+    less: postcssLess,
+    stylus: postcssStyl
+};
+
+/**
+ * Preprocessor directives and control flow, some of which share a name with
+ * CSS at-rules (e.g. @function)
+ */
+const PREPROCESSOR_AT_RULES = new Set([
+    'use', 'forward', 'import', 'mixin', 'include', 'function', 'return', 'extend', 'at-root', 'content',
+    'if', 'else', 'each', 'for', 'while', 'debug', 'warn', 'error', 'plugin', 'unless'
+]);
+
+/**
+ * Built-in preprocessor functions that are evaluated at compile time but share
+ * a name with a CSS value function or data type
+ */
+const SASS_FUNCTIONS = ['if', 'abs', 'round', 'percentage', 'length'];
+const PREPROCESSOR_FUNCTIONS: { [languageId: string]: Set<string> } = {
+    scss: new Set(SASS_FUNCTIONS),
+    sass: new Set(SASS_FUNCTIONS),
+    less: new Set(['if', 'abs', 'round', 'percentage', 'length', 'color', 'mod', 'pow', 'sqrt', 'sin', 'cos', 'tan', 'asin', 'acos', 'atan']),
+    stylus: new Set(['abs', 'round', 'percentage', 'length', 'sin', 'cos', 'tan'])
+};
+
+/**
+ * Explicit combinators and their BCD selector entries; whitespace is the descendant combinator
+ */
+const SELECTOR_COMBINATORS: { [combinator: string]: string } = {
+    '>': 'child',
+    '+': 'next-sibling',
+    '~': 'subsequent-sibling',
+    '||': 'column'
+};
+
+/**
+ * Less mixin definitions and guards, e.g. .bordered(@width) when (@width > 0)
+ */
+const LESS_MIXIN_DEFINITION = /^[.#][\w-]+\s*\(|\swhen\s/;
+
+/**
+ * Vendor prefixes on property names, e.g. -webkit-user-select
+ */
+const VENDOR_PREFIX = /^-(webkit|moz|ms|o)-/;
+
+/**
+ * Pseudo-classes whose functional form has its own BCD entry, e.g. :host(.dark)
+ */
+const FUNCTIONAL_PSEUDO_CLASSES = new Set(['host', 'heading']);
+
+/**
+ * Value types whose functions have their own BCD entries, e.g. css.types.color.oklch
+ */
+const VALUE_FUNCTION_TYPES = [
+    'css.types.color',
+    'css.types.gradient',
+    'css.types.image',
+    'css.types.filter-function',
+    'css.types.transform-function',
+    'css.types.easing-function',
+    'css.types.basic-shape'
+];
+
+/**
+ * Units that BCD groups under a single entry
+ */
+const UNIT_GROUPS: { [unit: string]: string } = {
+    ...Object.fromEntries(['dvh', 'dvw', 'dvi', 'dvb', 'dvmin', 'dvmax'].map(unit => [unit, 'css.types.length.viewport_percentage_units_dynamic'])),
+    ...Object.fromEntries(['lvh', 'lvw', 'lvi', 'lvb', 'lvmin', 'lvmax'].map(unit => [unit, 'css.types.length.viewport_percentage_units_large'])),
+    ...Object.fromEntries(['svh', 'svw', 'svi', 'svb', 'svmin', 'svmax'].map(unit => [unit, 'css.types.length.viewport_percentage_units_small'])),
+    ...Object.fromEntries(['cqw', 'cqh', 'cqi', 'cqb', 'cqmin', 'cqmax'].map(unit => [unit, 'css.types.length.container_query_length_units'])),
+    fr: 'css.types.flex'
+};
+
+/**
+ * Longhands whose value subfeatures also apply to the shorthand, e.g. subgrid in grid-template
+ */
+const SHORTHAND_LONGHANDS: { [shorthand: string]: string[] } = {
+    'grid': ['grid-template-columns', 'grid-template-rows', 'grid-auto-flow'],
+    'grid-template': ['grid-template-columns', 'grid-template-rows'],
+    'grid-area': ['grid-row-start', 'grid-column-start'],
+    'place-items': ['align-items', 'justify-items'],
+    'place-content': ['align-content', 'justify-content'],
+    'place-self': ['align-self', 'justify-self'],
+    'overflow': ['overflow-x', 'overflow-y'],
+    'text-wrap': ['text-wrap-mode', 'text-wrap-style'],
+    'white-space': ['white-space-collapse', 'text-wrap-mode'],
+    'inset': ['top', 'right', 'bottom', 'left'],
+    'font': ['font-family', 'font-size', 'font-weight', 'font-stretch'],
+    'background': ['background-clip', 'background-image', 'background-repeat', 'background-size'],
+    'mask': ['mask-clip', 'mask-image', 'mask-mode', 'mask-repeat'],
+    'animation': ['animation-composition', 'animation-timing-function', 'animation-timeline'],
+    'transition': ['transition-behavior', 'transition-timing-function']
+};
+
+/**
+ * Conditional group rules that can be nested directly inside a style rule
+ */
+const NESTED_GROUP_RULES = new Set(['media', 'supports', 'container', 'layer', 'scope', 'starting-style']);
+
 export class CSSAnalyzer extends AbstractBaseAnalyzer {
-    private compatibilityService: CompatibilityDataService;
 
     constructor(compatibilityService?: CompatibilityDataService) {
-        super(['css', 'scss', 'sass', 'less', 'stylus']);
-        this.compatibilityService = compatibilityService || new CompatibilityDataService();
+        super(['css', 'scss', 'sass', 'less', 'stylus'], compatibilityService);
     }
 
     async analyze(content: string, document: vscode.TextDocument): Promise<DetectedFeature[]> {
@@ -24,13 +134,17 @@ export class CSSAnalyzer extends AbstractBaseAnalyzer {
             if (this.isCSSInJS(document)) {
                 features.push(...await this.analyzeCSSInJS(content, document));
             } else {
-                // Parse CSS content with PostCSS
-                const root = postcss.parse(content, { from: document.fileName });
+                // Parse with the preprocessor syntax of the document's language, if any
+                const root = this.parse(content, document);
                 
                 features.push(...this.detectProperties(root, content, document));
                 features.push(...this.detectSelectors(root, content, document));
                 features.push(...this.detectAtRules(root, content, document));
-                features.push(...this.detectFunctions(root, content, document));
+                features.push(...this.detectValues(root, content, document));
+                features.push(...this.detectNesting(root, content, document));
+
+                const prefixedFeatures = this.applyVendorPrefixes(root, content, document, features);
+                return this.applySupportsGuards(root, content, document, prefixedFeatures);
             }
             
             return features;
@@ -41,19 +155,17 @@ export class CSSAnalyzer extends AbstractBaseAnalyzer {
         const features: DetectedFeature[] = [];
 
         root.walkDecls((decl) => {
+            if (this.isPreprocessorDeclaration(decl, document)) {
+                return;
+            }
+
             const prop = decl.prop.toLowerCase();
             const value = decl.value.toLowerCase();
 
-            // Try property first, then property with value if property alone has no data
-            let bcdKey = this.compatibilityService.mapCSSPropertyToBCD(prop);
-            let baselineStatus = this.compatibilityService.getBCDStatus(bcdKey);
-            
-            // If property alone has no data, try with specific value
-            if (!baselineStatus) {
-                bcdKey = this.compatibilityService.mapCSSPropertyToBCD(prop, this.extractFirstValue(value));
-                baselineStatus = this.compatibilityService.getBCDStatus(bcdKey);
-            }
-            
+            // Keywords, units and functions in the value are detected separately by detectValues
+            const bcdKey = this.compatibilityService.mapCSSPropertyToBCD(prop);
+            const baselineStatus = this.getBaselineStatus(bcdKey);
+
             if (baselineStatus && this.shouldAnalyzeFeature(bcdKey)) {
                 const position = this.getPositionFromSource(decl.source, content);
                 if (position) {
@@ -87,122 +199,747 @@ export class CSSAnalyzer extends AbstractBaseAnalyzer {
         const features: DetectedFeature[] = [];
 
         root.walkRules((rule) => {
-            const selector = rule.selector;
-            
-            // Check for modern selectors
-            const modernSelectors = [':has', ':is', ':where', ':not', '::backdrop', '::placeholder'];
-            for (const selectorPattern of modernSelectors) {
-                if (selector.includes(selectorPattern)) {
-                    let bcdKey = `css.selectors.${selectorPattern.replace(/:/g, '').replace(/-/g, '_')}`;
-                    // Special case for :has selector
-                    if (selectorPattern === ':has') {
-                        bcdKey = 'css.selectors.has';
-                    }
-                    const baselineStatus = this.compatibilityService.getBCDStatus(bcdKey);
-                    
-                    if (baselineStatus && this.shouldAnalyzeFeature(bcdKey)) {
-                        const position = this.getPositionFromSource(rule.source, content);
-                        if (position) {
-                            const range = this.createRange(
-                                position.start.line - 1,
-                                position.start.column - 1,
-                                position.start.line - 1,
-                                position.start.column + selectorPattern.length - 1
-                            );
+            // Offsets from the selector parser are relative to the selector as written, including comments
+            const selector = rule.raws.selector?.raw ?? rule.selector;
+            if (document.languageId === 'less' && LESS_MIXIN_DEFINITION.test(selector)) {
+                return;
+            }
 
-                            features.push(this.createDetectedFeature(
-                                bcdKey,
-                                selectorPattern,
-                                'css',
-                                range,
-                                baselineStatus,
-                                `CSS selector: ${selectorPattern}`
-                            ));
-                        }
-                    }
-                }
+            let selectors: selectorParser.Root;
+            try {
+                selectors = selectorParser().astSync(selector);
+            } catch (error) {
+                // Preprocessor-only selectors, e.g. Less mixin guards, are not valid CSS selectors
+                return;
+            }
+
+            const position = this.getPositionFromSource(rule.source, content);
+            if (!position) {
+                return;
             }
+            const ruleOffset = this.getOffsetFromSourcePosition(content, position.start);
+
+            selectors.walk((node) => {
+                const selectorFeature = this.resolveSelectorFeature(node);
+                if (!selectorFeature) {
+                    return;
+                }
+
+                const baselineStatus = this.getBaselineStatus(selectorFeature.bcdKey);
+                if (baselineStatus && this.shouldAnalyzeFeature(selectorFeature.bcdKey)) {
+                    const start = this.getPositionFromOffset(content, ruleOffset + node.sourceIndex);
+                    const range = this.createRange(start.line, start.character, start.line, start.character + selectorFeature.length);
+
+                    features.push(this.createDetectedFeature(
+                        selectorFeature.bcdKey,
+                        selectorFeature.name,
+                        'css',
+                        range,
+                        baselineStatus,
+                        selectorFeature.context
+                    ));
+                }
+            });
         });
 
         return features;
     }
 
+    /**
+     * Map a pseudo-class, pseudo-element or combinator to its BCD selector entry
+     */
+    private resolveSelectorFeature(node: selectorParser.Node): { bcdKey: string; name: string; length: number; context: string } | null {
+        if (node.type === 'pseudo') {
+            const pseudo = node.value.replace(/^::?/, '').toLowerCase();
+            let bcdKey = `css.selectors.${FUNCTIONAL_PSEUDO_CLASSES.has(pseudo) && node.nodes.length > 0 ? `${pseudo}function` : pseudo}`;
+
+            // :nth-child(2n of .item) has its own entry for the selector list argument
+            if ((pseudo === 'nth-child' || pseudo === 'nth-last-child') && /\bof\b/i.test(node.nodes.toString())) {
+                bcdKey += '.of_syntax';
+            }
+
+            return { bcdKey, name: node.value, length: node.value.length, context: `CSS selector: ${node.value}` };
+        }
+
+        if (node.type === 'combinator' && !this.isInNthArgument(node)) {
+            const value = node.value.trim();
+            const combinator = value ? SELECTOR_COMBINATORS[value] : 'descendant';
+            if (!combinator) {
+                return null;
+            }
+
+            return {
+                bcdKey: `css.selectors.${combinator}`,
+                name: value || 'descendant combinator',
+                length: value.length || 1,
+                context: `CSS combinator: ${combinator}`
+            };
+        }
+
+        return null;
+    }
+
+    /**
+     * The An+B arguments of :nth-*() are parsed as compound selectors, so the
+     * whitespace in "2n + 1 of .item" is not a combinator
+     */
+    private isInNthArgument(node: selectorParser.Node): boolean {
+        for (let parent = node.parent; parent; parent = parent.parent) {
+            if (parent.type === 'pseudo' && /^:nth-/i.test(parent.value)) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
     private detectAtRules(root: postcss.Root, content: string, document: vscode.TextDocument): DetectedFeature[] {
         const features: DetectedFeature[] = [];
 
         root.walkAtRules((atRule) => {
+            if (this.isPreprocessorAtRule(atRule, document)) {
+                return;
+            }
+
             const ruleName = atRule.name;
-            const bcdKey = `css.at_rules.${ruleName.replace(/-/g, '_')}`;
-            const baselineStatus = this.compatibilityService.getBCDStatus(bcdKey);
+            const position = this.getPositionFromSource(atRule.source, content);
+            if (!position) {
+                return;
+            }
 
-            if (baselineStatus && this.shouldAnalyzeFeature(bcdKey)) {
-                const position = this.getPositionFromSource(atRule.source, content);
-                if (position) {
-                    const range = this.createRange(
-                        position.start.line - 1,
-                        position.start.column - 1,
-                        position.start.line - 1,
-                        position.start.column + ruleName.length - 1
-                    );
+            const bcdKey = this.findBCDKey('css.at-rules', [ruleName.toLowerCase()]);
+            const baselineStatus = bcdKey ? this.getBaselineStatus(bcdKey) : null;
+
+            if (bcdKey && baselineStatus && this.shouldAnalyzeFeature(bcdKey)) {
+                const range = this.createRange(
+                    position.start.line - 1,
+                    position.start.column - 1,
+                    position.start.line - 1,
+                    position.start.column + ruleName.length
+                );
+
+                features.push(this.createDetectedFeature(
+                    bcdKey,
+                    `@${ruleName}`,
+                    'css',
+                    range,
+                    baselineStatus,
+                    `CSS at-rule: @${ruleName}`
+                ));
+            }
+
+            if (ruleName.toLowerCase() === 'media' && atRule.params) {
+                const atRuleOffset = this.getOffsetFromSourcePosition(content, position.start);
+                const paramsOffset = content.indexOf(atRule.params, atRuleOffset + ruleName.length + 1);
+                if (paramsOffset !== -1) {
+                    features.push(...this.detectMediaQueryFeatures(content, paramsOffset, atRule.params, 'css'));
+                }
+            }
+        });
+
+        return features;
+    }
+
+    /**
+     * Detect the keywords, units and functions used in declaration values, e.g.
+     * subgrid, dvh and oklch(), each with the range of its own token
+     */
+    private detectValues(root: postcss.Root, content: string, document: vscode.TextDocument): DetectedFeature[] {
+        const features: DetectedFeature[] = [];
+        const preprocessorFunctions = PREPROCESSOR_FUNCTIONS[document.languageId];
+
+        root.walkDecls((decl) => {
+            if (this.isPreprocessorDeclaration(decl, document)) {
+                return;
+            }
+
+            const prop = decl.prop.toLowerCase();
+            const position = this.getPositionFromSource(decl.source, content);
+            if (!position) {
+                return;
+            }
+
+            const parsed = valueParser(decl.value);
+            parsed.walk((node) => {
+                // Skip module functions such as math.div() and the preprocessor's own built-ins, including their arguments
+                if (node.type === 'function' && preprocessorFunctions &&
+                    (node.value.includes('.') || preprocessorFunctions.has(node.value.toLowerCase()))) {
+                    return false;
+                }
+
+                const valueFeature = this.resolveValueFeature(node, prop, parsed.nodes.includes(node));
+                if (!valueFeature) {
+                    return;
+                }
+
+                const baselineStatus = this.getBaselineStatus(valueFeature.bcdKey);
+                if (baselineStatus && this.shouldAnalyzeFeature(valueFeature.bcdKey)) {
+                    const start = this.getValuePosition(decl, content, position.start, node.sourceIndex + valueFeature.offset);
+                    const range = this.createRange(start.line, start.character, start.line, start.character + valueFeature.length);
 
                     features.push(this.createDetectedFeature(
-                        bcdKey,
-                        `@${ruleName}`,
+                        valueFeature.bcdKey,
+                        valueFeature.name,
                         'css',
                         range,
                         baselineStatus,
-                        `CSS at-rule: @${ruleName}`
+                        valueFeature.context
                     ));
                 }
-            }
+            });
         });
 
         return features;
     }
 
-    private detectFunctions(root: postcss.Root, content: string, document: vscode.TextDocument): DetectedFeature[] {
-        const features: DetectedFeature[] = [];
+    /**
+     * Map a value token to its BCD entry: keywords to the property's subfeature
+     * (or a global keyword), dimensions to their unit and functions to the
+     * property's subfeature or their value type
+     */
+    private resolveValueFeature(
+        node: valueParser.Node,
+        prop: string,
+        topLevel: boolean
+    ): { bcdKey: string; name: string; offset: number; length: number; context: string } | null {
+        if (node.type === 'word') {
+            // Preprocessor variables and interpolation
+            if (/^[$@]|#\{|@\{/.test(node.value)) {
+                return null;
+            }
+
+            const dimension = valueParser.unit(node.value);
+            if (dimension && dimension.unit) {
+                const bcdKey = this.findUnitKey(dimension.unit);
+                return bcdKey
+                    ? { bcdKey, name: dimension.unit, offset: dimension.number.length, length: dimension.unit.length, context: `CSS unit: ${dimension.unit}` }
+                    : null;
+            }
+
+            // Keywords inside functions are arguments, e.g. "in" in color-mix(in oklch, ...)
+            if (!topLevel || dimension) {
+                return null;
+            }
+
+            const keyword = node.value.toLowerCase();
+            const bcdKey = this.findPropertyValueKey(prop, keyword) || this.findBCDKey('css.types.global_keywords', [keyword]);
+            return bcdKey
+                ? { bcdKey, name: `${prop}: ${keyword}`, offset: 0, length: node.value.length, context: `CSS value: ${prop}: ${keyword}` }
+                : null;
+        }
+
+        if (node.type === 'function' && node.value) {
+            const functionName = node.value.toLowerCase();
+            let bcdKey = this.findPropertyValueKey(prop, `${functionName}_function`) ||
+                this.findPropertyValueKey(prop, functionName) ||
+                VALUE_FUNCTION_TYPES.map(type => this.findBCDKey(type, [node.value, functionName])).find(key => !!key) ||
+                this.findBCDKey('css.types', [functionName]);
+            if (!bcdKey) {
+                return null;
+            }
+
+            // Relative colors, e.g. oklch(from var(--brand) l c h)
+            const firstArgument = node.nodes.find(argument => argument.type !== 'space');
+            if (bcdKey.startsWith('css.types.color.') && firstArgument?.type === 'word' && firstArgument.value.toLowerCase() === 'from') {
+                bcdKey = this.findBCDKey(bcdKey, ['relative_syntax']) || bcdKey;
+            }
+
+            return { bcdKey, name: node.value, offset: 0, length: node.value.length, context: `CSS function: ${node.value}()` };
+        }
+
+        return null;
+    }
+
+    /**
+     * Find a value subfeature of a property, falling back to the longhands of shorthand properties
+     */
+    private findPropertyValueKey(prop: string, value: string): string | null {
+        for (const property of [prop, ...(SHORTHAND_LONGHANDS[prop] || [])]) {
+            const bcdKey = this.findBCDKey(`css.properties.${property}`, [value]);
+            if (bcdKey) {
+                return bcdKey;
+            }
+        }
+
+        return null;
+    }
+
+    private findUnitKey(unit: string): string | null {
+        const normalized = unit === 'Q' ? unit : unit.toLowerCase();
+        if (UNIT_GROUPS[normalized]) {
+            return UNIT_GROUPS[normalized];
+        }
+
+        return ['css.types.length', 'css.types.angle', 'css.types.resolution']
+            .map(type => this.findBCDKey(type, [normalized]))
+            .find(key => !!key) || null;
+    }
+
+    /**
+     * Return the first child of a BCD entry that exists, trying each name as
+     * written and with underscores, as BCD uses both
+     */
+    private findBCDKey(parentKey: string, names: string[]): string | null {
+        for (const name of names) {
+            for (const candidate of [name, name.replace(/-/g, '_')]) {
+                const bcdKey = `${parentKey}.${candidate}`;
+                if (this.compatibilityService.getBCDData(bcdKey)) {
+                    return bcdKey;
+                }
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Report vendor-prefixed declarations the target browsers do not need, and
+     * unprefixed ones missing a prefix a target browser still needs. Without
+     * browser targets a prefix is only redundant once the unprefixed property
+     * is widely available.
+     */
+    private applyVendorPrefixes(
+        root: postcss.Root,
+        content: string,
+        document: vscode.TextDocument,
+        features: DetectedFeature[]
+    ): DetectedFeature[] {
+        const result = [...features];
+        const hasBrowserTargets = this.compatibilityService.getBrowserTargets().length > 0;
 
         root.walkDecls((decl) => {
-            const value = decl.value;
-            
-            // Use regex to find function calls in CSS values
-            const functionRegex = /([a-z-]+)\s*\(/gi;
-            let match;
+            if (this.isPreprocessorDeclaration(decl, document) || !decl.parent) {
+                return;
+            }
 
-            while ((match = functionRegex.exec(value)) !== null) {
-                const functionName = match[1].toLowerCase();
-                const bcdKey = `css.types.${functionName.replace(/-/g, '_')}`;
-                const baselineStatus = this.compatibilityService.getBCDStatus(bcdKey);
-
-                if (baselineStatus && this.shouldAnalyzeFeature(bcdKey)) {
-                    const position = this.getPositionFromSource(decl.source, content);
-                    if (position) {
-                        // Calculate the position of the function within the declaration
-                        const functionStart = position.start.column + decl.prop.length + 1 + match.index!;
-                        const range = this.createRange(
-                            position.start.line - 1,
-                            functionStart - 1,
-                            position.start.line - 1,
-                            functionStart + functionName.length - 1
-                        );
-
-                        features.push(this.createDetectedFeature(
-                            bcdKey,
-                            functionName,
-                            'css',
-                            range,
-                            baselineStatus,
-                            `CSS function: ${functionName}()`
-                        ));
-                    }
+            const position = this.getPositionFromSource(decl.source, content);
+            if (!position) {
+                return;
+            }
+
+            const prop = decl.prop.toLowerCase();
+            const prefixMatch = VENDOR_PREFIX.exec(prop);
+            const property = prefixMatch ? prop.slice(prefixMatch[0].length) : prop;
+            const bcdKey = `css.properties.${property}`;
+            const baselineStatus = this.getBaselineStatus(bcdKey);
+            if (!baselineStatus || !this.shouldAnalyzeFeature(bcdKey)) {
+                return;
+            }
+
+            const siblings = new Set<string>();
+            decl.parent.each(node => {
+                if (node.type === 'decl' && node !== decl) {
+                    siblings.add(node.prop.toLowerCase());
+                }
+            });
+
+            const requiredPrefixes = this.compatibilityService.getRequiredPrefixes(bcdKey);
+            const startOffset = this.getOffsetFromSourcePosition(content, position.start);
+            let vendorPrefix: VendorPrefixIssue | undefined;
+
+            if (prefixMatch) {
+                const prefix = prefixMatch[0];
+                if (requiredPrefixes.has(prefix) || (!hasBrowserTargets && baselineStatus.status !== 'widely_available')) {
+                    return;
+                }
+
+                vendorPrefix = {
+                    kind: 'redundant',
+                    prefixes: [prefix],
+                    property,
+                    browsers: [],
+                    fix: siblings.has(property)
+                        ? this.createRemoveDeclarationFix(decl, content, startOffset, position.end)
+                        : {
+                            title: `Replace ${decl.prop} with ${property}`,
+                            range: this.createOffsetRange(content, startOffset, startOffset + decl.prop.length),
+                            newText: property
+                        }
+                };
+            } else {
+                const missing = [...requiredPrefixes.keys()].filter(prefix => !siblings.has(prefix + property));
+                if (missing.length === 0) {
+                    return;
+                }
+
+                vendorPrefix = {
+                    kind: 'missing',
+                    prefixes: missing,
+                    property,
+                    browsers: missing.flatMap(prefix => requiredPrefixes.get(prefix) || []),
+                    fix: this.createPrefixDeclarationFix(decl, content, document, startOffset, position.end, missing)
+                };
+            }
+
+            // Attach the issue to the property's own feature when it was detected
+            const existing = result.findIndex(feature =>
+                feature.id === this.compatibilityService.mapCSSPropertyToBCD(prop) &&
+                feature.range.start.line === position.start.line - 1 &&
+                feature.range.start.character === position.start.column - 1
+            );
+            if (existing !== -1) {
+                result[existing] = { ...result[existing], vendorPrefix };
+                return;
+            }
+
+            const range = this.createOffsetRange(content, startOffset, startOffset + decl.prop.length);
+            const feature = this.createDetectedFeature(bcdKey, decl.prop, 'css', range, baselineStatus, `Vendor prefix: ${vendorPrefix.prefixes.join(', ')}`);
+            result.push({
+                ...feature,
+                severity: vendorPrefix.kind === 'redundant' ? 'info' : feature.severity,
+                vendorPrefix
+            });
+        });
+
+        return result;
+    }
+
+    /**
+     * Fix that removes a declaration along with the whitespace before it
+     */
+    private createRemoveDeclarationFix(
+        decl: postcss.Declaration,
+        content: string,
+        startOffset: number,
+        end: { line: number; column: number }
+    ): VendorPrefixIssue['fix'] {
+        const before = decl.raws.before || '';
+        const removeStart = content.slice(startOffset - before.length, startOffset) === before ? startOffset - before.length : startOffset;
+
+        return {
+            title: `Remove ${decl.prop}`,
+            range: this.createOffsetRange(content, removeStart, this.getOffsetFromSourcePosition(content, end) + 1),
+            newText: ''
+        };
+    }
+
+    /**
+     * Fix that inserts a prefixed copy of a declaration before it for each prefix
+     */
+    private createPrefixDeclarationFix(
+        decl: postcss.Declaration,
+        content: string,
+        document: vscode.TextDocument,
+        startOffset: number,
+        end: { line: number; column: number },
+        prefixes: string[]
+    ): VendorPrefixIssue['fix'] {
+        const text = content.slice(startOffset, this.getOffsetFromSourcePosition(content, end) + 1).trim();
+        // The indented syntaxes end declarations at the line break
+        const terminator = text.endsWith(';') || ['sass', 'stylus'].includes(document.languageId) ? '' : ';';
+        const before = decl.raws.before || '';
+        const separator = before.includes('\n') ? before.slice(before.lastIndexOf('\n')) : ' ';
+
+        return {
+            title: `Add ${prefixes.map(prefix => prefix + decl.prop).join(', ')}`,
+            range: this.createOffsetRange(content, startOffset, startOffset),
+            newText: prefixes.map(prefix => prefix + text + terminator + separator).join('')
+        };
+    }
+
+    /**
+     * Convert a pair of content offsets into a range
+     */
+    private createOffsetRange(content: string, startOffset: number, endOffset: number): vscode.Range {
+        const start = this.getPositionFromOffset(content, startOffset);
+        const end = this.getPositionFromOffset(content, endOffset);
+        return this.createRange(start.line, start.character, end.line, end.character);
+    }
+
+    /**
+     * Mark features inside an @supports rule that tests for them, e.g.
+     * display: grid inside @supports (display: grid), or any part of the grid
+     * web feature. Negated conditions are the fallback branch and guard nothing.
+     */
+    private applySupportsGuards(
+        root: postcss.Root,
+        content: string,
+        document: vscode.TextDocument,
+        features: DetectedFeature[]
+    ): DetectedFeature[] {
+        const guards: { start: number; end: number; bcdKeys: Set<string>; webFeatureIds: Set<string>; guard: FeatureGuard }[] = [];
+
+        root.walkAtRules(/^supports$/i, (atRule) => {
+            const position = this.getPositionFromSource(atRule.source, content);
+            const bcdKeys = this.getSupportsConditionKeys(valueParser(atRule.params).nodes, document);
+            if (!position || bcdKeys.size === 0) {
+                return;
+            }
+
+            guards.push({
+                start: this.getOffsetFromSourcePosition(content, position.start),
+                end: this.getOffsetFromSourcePosition(content, position.end),
+                bcdKeys,
+                webFeatureIds: new Set([...bcdKeys]
+                    .map(bcdKey => this.compatibilityService.getWebFeatureId(bcdKey))
+                    .filter((id): id is string => !!id)),
+                guard: { kind: 'supports', description: `@supports ${atRule.params}` }
+            });
+        });
+
+        if (guards.length === 0) {
+            return features;
+        }
+
+        return features.map(feature => {
+            const offset = this.getOffsetFromSourcePosition(content, {
+                line: feature.range.start.line + 1,
+                column: feature.range.start.character + 1
+            });
+            const webFeatureId = this.compatibilityService.getWebFeatureId(feature.id);
+
+            // Walk order puts outer rules first, so the last match is the innermost guard
+            const match = guards.filter(guard =>
+                offset >= guard.start && offset < guard.end &&
+                (guard.bcdKeys.has(feature.id) || (!!webFeatureId && guard.webFeatureIds.has(webFeatureId)))
+            ).pop();
+
+            return match ? { ...feature, guard: match.guard } : feature;
+        });
+    }
+
+    /**
+     * Collect the BCD keys an @supports condition tests for by analyzing its
+     * declarations and selector() functions like regular CSS. A key counts when
+     * it is one of the conjuncts, or when every branch of a disjunction tests it;
+     * negated operands guard nothing.
+     */
+    private getSupportsConditionKeys(nodes: valueParser.Node[], document: vscode.TextDocument): Set<string> {
+        // Operands joined by "and", split into the branches joined by "or"
+        const branches: Set<string>[] = [new Set()];
+        let negated = false;
+
+        for (const node of nodes) {
+            if (node.type === 'word') {
+                const keyword = node.value.toLowerCase();
+                if (keyword === 'or') {
+                    branches.push(new Set());
+                }
+                negated = keyword === 'not';
+                continue;
+            }
+            if (node.type !== 'function') {
+                continue;
+            }
+
+            if (!negated) {
+                const branch = branches[branches.length - 1];
+                this.getSupportsOperandKeys(node, document).forEach(bcdKey => branch.add(bcdKey));
+            }
+            negated = false;
+        }
+
+        return branches.reduce((common, branch) => new Set([...common].filter(bcdKey => branch.has(bcdKey))));
+    }
+
+    /**
+     * Collect the BCD keys a single parenthesized @supports operand tests for
+     */
+    private getSupportsOperandKeys(node: valueParser.FunctionNode, document: vscode.TextDocument): Set<string> {
+        const conditionFeatures: DetectedFeature[] = [];
+        const colon = node.nodes.findIndex(child => child.type === 'div' && child.value === ':');
+
+        if (node.value === '' && colon === -1) {
+            // Nested condition, e.g. ((display: grid) and (gap: 1rem))
+            return this.getSupportsConditionKeys(node.nodes, document);
+        } else if (node.value === '') {
+            const text = `a { ${valueParser.stringify(node.nodes)} }`;
+            const conditionRoot = this.parseCondition(text);
+            if (conditionRoot) {
+                conditionFeatures.push(...this.detectProperties(conditionRoot, text, document));
+                conditionFeatures.push(...this.detectValues(conditionRoot, text, document));
+            }
+        } else if (node.value.toLowerCase() === 'selector') {
+            const text = `${valueParser.stringify(node.nodes)} {}`;
+            const conditionRoot = this.parseCondition(text);
+            if (conditionRoot) {
+                conditionFeatures.push(...this.detectSelectors(conditionRoot, text, document));
+            }
+        }
+
+        return new Set(conditionFeatures.map(feature => feature.id));
+    }
+
+    private parseCondition(text: string): postcss.Root | null {
+        try {
+            return postcss.parse(text);
+        } catch (error) {
+            return null;
+        }
+    }
+
+    /**
+     * Detect native CSS nesting: style rules and conditional at-rules nested in
+     * a style rule, and selectors using the & nesting selector. Preprocessors
+     * and CSS-in-JS libraries flatten their nesting at build time, so only
+     * plain CSS files are checked.
+     */
+    private detectNesting(root: postcss.Root, content: string, document: vscode.TextDocument): DetectedFeature[] {
+        const features: DetectedFeature[] = [];
+        const bcdKey = 'css.selectors.nesting';
+
+        if (document.languageId !== 'css') {
+            return features;
+        }
+
+        const baselineStatus = this.getBaselineStatus(bcdKey);
+        if (!baselineStatus || !this.shouldAnalyzeFeature(bcdKey)) {
+            return features;
+        }
+
+        root.walk((node) => {
+            let name: string;
+            let context: string;
+            let index = 0;
+            let length: number;
+
+            if (node.type === 'rule') {
+                const nestingIndex = this.findNestingSelector(node.selector);
+                if (nestingIndex === -1 && !this.isNestedInStyleRule(node)) {
+                    return;
                 }
+
+                // Point at the & when there is one, otherwise at the first line of the nested selector
+                index = Math.max(nestingIndex, 0);
+                length = nestingIndex === -1 ? node.selector.split('\n')[0].trimEnd().length : 1;
+                name = nestingIndex === -1 ? 'nested rule' : '&';
+                context = `CSS nesting: ${node.selector}`;
+            } else if (node.type === 'atrule' && NESTED_GROUP_RULES.has(node.name.toLowerCase()) && this.isNestedInStyleRule(node)) {
+                length = node.name.length + 1;
+                name = `nested @${node.name}`;
+                context = `CSS nesting: @${node.name} inside a style rule`;
+            } else {
+                return;
+            }
+
+            const position = this.getPositionFromSource(node.source, content);
+            if (position) {
+                const start = this.getPositionFromOffset(content, this.getOffsetFromSourcePosition(content, position.start) + index);
+                const range = this.createRange(start.line, start.character, start.line, start.character + length);
+
+                features.push(this.createDetectedFeature(bcdKey, name, 'css', range, baselineStatus, context));
             }
         });
 
         return features;
     }
 
+    private isNestedInStyleRule(node: postcss.Node): boolean {
+        for (let parent = node.parent; parent; parent = parent.parent) {
+            if (parent.type === 'rule') {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Find the first & nesting selector, ignoring escaped characters, strings
+     * and attribute selectors such as [title="a & b"]
+     */
+    private findNestingSelector(selector: string): number {
+        let quote = '';
+        let bracketDepth = 0;
+
+        for (let i = 0; i < selector.length; i++) {
+            const char = selector[i];
+            if (char === '\\') {
+                i++;
+            } else if (quote) {
+                if (char === quote) {
+                    quote = '';
+                }
+            } else if (char === '"' || char === "'") {
+                quote = char;
+            } else if (char === '[') {
+                bracketDepth++;
+            } else if (char === ']') {
+                bracketDepth = Math.max(bracketDepth - 1, 0);
+            } else if (char === '&' && bracketDepth === 0) {
+                return i;
+            }
+        }
+
+        return -1;
+    }
+
+    private parse(content: string, document: vscode.TextDocument): postcss.Root {
+        const syntax = PREPROCESSOR_SYNTAXES[document.languageId];
+        if (syntax && syntax.parse) {
+            return syntax.parse(content, { from: document.fileName }) as postcss.Root;
+        }
+
+        return postcss.parse(content, { from: document.fileName });
+    }
+
+    /**
+     * Variables, interpolated property names and top-level assignments are
+     * preprocessor constructs rather than CSS properties
+     */
+    private isPreprocessorDeclaration(decl: postcss.Declaration, document: vscode.TextDocument): boolean {
+        if (!PREPROCESSOR_SYNTAXES[document.languageId]) {
+            return false;
+        }
+
+        const node = decl as postcss.Declaration & { variable?: boolean };
+        return decl.prop.startsWith('$') ||
+            decl.prop.startsWith('@') ||
+            /#\{|@\{/.test(decl.prop) ||
+            node.variable === true ||
+            decl.parent?.type === 'root';
+    }
+
+    /**
+     * Preprocessor directives, Less mixin calls and variables, and Stylus mixin
+     * definitions are parsed as at-rules but are not CSS at-rules
+     */
+    private isPreprocessorAtRule(atRule: postcss.AtRule, document: vscode.TextDocument): boolean {
+        if (!PREPROCESSOR_SYNTAXES[document.languageId]) {
+            return false;
+        }
+
+        const node = atRule as postcss.AtRule & { mixin?: boolean; variable?: boolean; function?: boolean };
+        return PREPROCESSOR_AT_RULES.has(atRule.name.toLowerCase()) ||
+            !!node.mixin ||
+            !!node.variable ||
+            !!node.function;
+    }
+
+    /**
+     * Find where a position in a declaration's value is in the source. Parsers
+     * normalize the text between property and value (Stylus has no colon), so
+     * the value is located in the source instead of assuming "prop:value".
+     */
+    private getValuePosition(
+        decl: postcss.Declaration,
+        content: string,
+        start: { line: number; column: number },
+        valueIndex: number
+    ): { line: number; character: number } {
+        const declOffset = this.getOffsetFromSourcePosition(content, start);
+        const valueOffset = content.indexOf(decl.value, declOffset + decl.prop.length);
+        if (valueOffset !== -1) {
+            return this.getPositionFromOffset(content, valueOffset + valueIndex);
+        }
+
+        // Values rewritten by the parser (e.g. with comments removed) fall back to "prop:value"
+        return { line: start.line - 1, character: start.column + decl.prop.length + valueIndex };
+    }
+
+    /**
+     * Convert a 1-based PostCSS line and column into an offset in the content
+     */
+    private getOffsetFromSourcePosition(content: string, start: { line: number; column: number }): number {
+        const lines = content.split('\n');
+        let offset = start.column - 1;
+        for (let i = 0; i < start.line - 1 && i < lines.length; i++) {
+            offset += lines[i].length + 1;
+        }
+
+        return offset;
+    }
+
     private isCSSInJS(document: vscode.TextDocument): boolean {
         const languageId = document.languageId;
         return ['javascript', 'typescript', 'javascriptreact', 'typescriptreact'].includes(languageId);
@@ -235,7 +972,7 @@ export class CSSAnalyzer extends AbstractBaseAnalyzer {
                             ...this.detectProperties(root, cssContent, document),
                             ...this.detectSelectors(root, cssContent, document),
                             ...this.detectAtRules(root, cssContent, document),
-                            ...this.detectFunctions(root, cssContent, document)
+                            ...this.detectValues(root, cssContent, document)
                         ];
 
                         // Adjust positions to account for the CSS-in-JS context
@@ -11,13 +11,11 @@ type Node = DefaultTreeAdapterMap['node'];
 type TextNode = DefaultTreeAdapterMap['textNode'];
 
 export class HTMLAnalyzer extends AbstractBaseAnalyzer {
-    private compatibilityService: CompatibilityDataService;
     private cssAnalyzer: CSSAnalyzer;
     private jsAnalyzer: JavaScriptAnalyzer;
 
     constructor(compatibilityService?: CompatibilityDataService) {
-        super(['html', 'htm', 'vue', 'svelte', 'angular']);
-        this.compatibilityService = compatibilityService || new CompatibilityDataService();
+        super(['html', 'htm', 'vue', 'svelte', 'angular'], compatibilityService);
         this.cssAnalyzer = new CSSAnalyzer(this.compatibilityService);
         this.jsAnalyzer = new JavaScriptAnalyzer(this.compatibilityService);
     }
@@ -42,6 +40,7 @@ export class HTMLAnalyzer extends AbstractBaseAnalyzer {
                 features.push(...this.detectElements(documentNode, content, document));
                 features.push(...this.detectAttributes(documentNode, content, document));
                 features.push(...this.detectInputTypes(documentNode, content, document));
+                features.push(...this.detectMediaAttributes(documentNode, content, document));
                 
                 // Extract and analyze inline CSS and JavaScript
                 features.push(...await this.analyzeInlineStyles(documentNode, content, document));
@@ -324,6 +323,29 @@ export class HTMLAnalyzer extends AbstractBaseAnalyzer {
         return features;
     }
 
+    /**
+     * Detect media features in media attributes, e.g. <link media="(prefers-color-scheme: dark)">
+     */
+    private detectMediaAttributes(documentNode: Node, content: string, document: vscode.TextDocument): DetectedFeature[] {
+        const features: DetectedFeature[] = [];
+
+        this.walkHTML(documentNode, (node: Node) => {
+            const element = node as Element;
+            const mediaAttr = element.attrs?.find(attr => attr.name === 'media');
+            const attrLocation = element.sourceCodeLocation?.attrs?.media;
+            if (!mediaAttr || !mediaAttr.value || !attrLocation) {
+                return;
+            }
+
+            const valueOffset = content.indexOf(mediaAttr.value, attrLocation.startOffset + mediaAttr.name.length);
+            if (valueOffset !== -1 && valueOffset < attrLocation.endOffset) {
+                features.push(...this.detectMediaQueryFeatures(content, valueOffset, mediaAttr.value, 'html'));
+            }
+        });
+
+        return features;
+    }
+
     private async analyzeInlineStyles(documentNode: Node, content: string, document: vscode.TextDocument): Promise<DetectedFeature[]> {
         const features: DetectedFeature[] = [];
         
@@ -1,6 +1,9 @@
 import * as vscode from 'vscode';
-import { parse, Node } from 'acorn';
-import { DetectedFeature, BaselineStatus } from '../types';
+import { Parser, Node } from 'acorn';
+import jsx from 'acorn-jsx';
+import { parse as parseTypeScript, TSESTree } from '@typescript-eslint/typescript-estree';
+import { analyze as analyzeScope, ScopeManager, Variable } from '@typescript-eslint/scope-manager';
+import { DetectedFeature, BaselineStatus, FeatureGuard } from '../types';
 import { AbstractBaseAnalyzer } from './baseAnalyzer';
 import { CompatibilityDataService } from '../services/compatibilityService';
 
@@ -31,14 +34,139 @@ interface AcornNode extends Node {
     computed?: boolean;
     kind?: string;
     raw?: string;
+    quasis?: { value: { raw: string } }[];
+    range?: [number, number];
+    declare?: boolean;
+    importKind?: string;
+    exportKind?: string;
+    attributes?: AcornNode[];
+    test?: AcornNode;
+    consequent?: AcornNode;
+    alternate?: AcornNode | null;
+    expression?: AcornNode;
+    regex?: object;
+    bigint?: string;
+    typeAnnotation?: AcornNode;
+    typeName?: AcornNode;
+    decorators?: AcornNode[];
+    implements?: AcornNode[];
 }
 
+/**
+ * Code that only runs when a feature check passes, e.g. the body of
+ * if ('share' in navigator), with the BCD keys the check tests for
+ */
+interface GuardedRegion {
+    start: number;
+    end: number;
+    bcdKeys: Set<string>;
+    webFeatureIds: Set<string>;
+    guard: FeatureGuard;
+}
+
+/**
+ * A feature check in a condition, e.g. typeof structuredClone === 'function'
+ */
+interface GuardCondition {
+    bcdKey: string;
+    description: string;
+}
+
+/**
+ * Acorn extended with JSX. React projects often keep JSX in .js files, so all
+ * JavaScript is parsed with it.
+ */
+const JSXParser = Parser.extend(jsx());
+
+/**
+ * React props whose HTML attribute has a different name. Other props are the
+ * attribute name in camelCase, e.g. fetchPriority for fetchpriority.
+ */
+const JSX_ATTRIBUTE_NAMES: { [prop: string]: string } = {
+    className: 'class',
+    htmlFor: 'for'
+};
+
+/**
+ * Nodes that typescript-estree always gives a decorators list. Scope analysis
+ * reads it, so Acorn's output gets an empty one.
+ */
+const DECORATED_NODES = new Set(['ClassDeclaration', 'ClassExpression', 'PropertyDefinition', 'MethodDefinition', 'AccessorProperty']);
+
+/**
+ * Names of the global object; their members are globals themselves
+ */
+const GLOBAL_OBJECT_NAMES = new Set(['window', 'globalThis', 'self']);
+
+/**
+ * Built-in methods that return another built-in, keyed by receiver and method,
+ * so chained calls such as items.filter(isOpen).at(-1) resolve too
+ */
+const BUILTIN_RETURN_TYPES: { [method: string]: string } = {
+    'Array.from': 'Array',
+    'Array.of': 'Array',
+    'Object.keys': 'Array',
+    'Object.values': 'Array',
+    'Object.entries': 'Array',
+    'JSON.stringify': 'String',
+    'Array.concat': 'Array',
+    'Array.filter': 'Array',
+    'Array.flat': 'Array',
+    'Array.flatMap': 'Array',
+    'Array.map': 'Array',
+    'Array.slice': 'Array',
+    'Array.toReversed': 'Array',
+    'Array.toSorted': 'Array',
+    'Array.toSpliced': 'Array',
+    'Array.with': 'Array',
+    'Array.join': 'String',
+    'String.split': 'Array',
+    'String.padEnd': 'String',
+    'String.padStart': 'String',
+    'String.replace': 'String',
+    'String.replaceAll': 'String',
+    'String.slice': 'String',
+    'String.toLowerCase': 'String',
+    'String.toUpperCase': 'String',
+    'String.trim': 'String',
+    'String.trimEnd': 'String',
+    'String.trimStart': 'String'
+};
+
+/**
+ * TypeScript keyword types and the built-in they describe
+ */
+const TS_KEYWORD_TYPES: { [type: string]: string } = {
+    TSStringKeyword: 'String',
+    TSNumberKeyword: 'Number',
+    TSBigIntKeyword: 'BigInt',
+    TSArrayType: 'Array',
+    TSTupleType: 'Array'
+};
+
+/**
+ * TypeScript syntax that only describes types. It has no runtime behavior, so
+ * nothing inside it is a browser feature.
+ */
+const TYPE_ONLY_NODES = new Set([
+    'TSInterfaceDeclaration',
+    'TSTypeAliasDeclaration',
+    'TSDeclareFunction',
+    'TSEmptyBodyFunctionExpression',
+    'TSIndexSignature',
+    'TSAbstractMethodDefinition',
+    'TSAbstractPropertyDefinition'
+]);
+
+/**
+ * Node keys that hold type annotations, e.g. the type in `x as Map<K, V>`
+ */
+const TYPE_ONLY_KEYS = new Set(['typeAnnotation', 'typeParameters', 'typeArguments', 'returnType', 'superTypeParameters', 'implements']);
+
 export class JavaScriptAnalyzer extends AbstractBaseAnalyzer {
-    private compatibilityService: CompatibilityDataService;
 
     constructor(compatibilityService?: CompatibilityDataService) {
-        super(['javascript', 'typescript', 'javascriptreact', 'typescriptreact']);
-        this.compatibilityService = compatibilityService || new CompatibilityDataService();
+        super(['javascript', 'typescript', 'javascriptreact', 'typescriptreact'], compatibilityService);
     }
 
     async analyze(content: string, document: vscode.TextDocument): Promise<DetectedFeature[]> {
@@ -49,57 +177,266 @@ export class JavaScriptAnalyzer extends AbstractBaseAnalyzer {
 
             const features: DetectedFeature[] = [];
             
-            // Handle TypeScript by stripping types for basic analysis
-            const jsContent = this.stripTypeScript(content, document.languageId);
+            const ast = this.parse(content, document.languageId);
             
-            // Parse JavaScript/TypeScript with Acorn
-            const ast = parse(jsContent, {
-                ecmaVersion: 'latest',
+            const scopeManager = analyzeScope(ast as unknown as TSESTree.Node, {
                 sourceType: 'module',
-                allowReturnOutsideFunction: true,
-                allowImportExportEverywhere: true,
-                allowAwaitOutsideFunction: true
-            }) as AcornNode;
+                jsxPragma: null
+            });
+            const globalReferences = this.findGlobalReferences(scopeManager);
+            const receiverTypes = this.inferReceiverTypes(ast, scopeManager, globalReferences);
             
-            features.push(...this.detectAPIs(ast, content, document));
+            features.push(...this.detectAPIs(ast, content, document, globalReferences));
             features.push(...this.detectSyntax(ast, content, document));
-            features.push(...this.detectBuiltins(ast, content, document));
+            features.push(...this.detectBuiltins(ast, content, document, globalReferences, receiverTypes));
+            features.push(...this.detectMediaQueries(ast, content, globalReferences));
+            features.push(...this.detectJSXElements(ast, content, document));
             
-            return features;
+            return this.applyFeatureGuards(ast, content, features, globalReferences);
         }, document, 'javascript_analysis');
     }
 
 
 
-    private stripTypeScript(content: string, languageId: string): string {
+    /**
+     * Parse JavaScript with Acorn and TypeScript with typescript-estree, which
+     * produces the same ESTree shape with offsets into the original source
+     */
+    private parse(content: string, languageId: string): AcornNode {
         if (!languageId.includes('typescript')) {
-            return content;
+            const ast = JSXParser.parse(content, {
+                ecmaVersion: 'latest',
+                sourceType: 'module',
+                allowReturnOutsideFunction: true,
+                allowImportExportEverywhere: true,
+                allowAwaitOutsideFunction: true,
+                // Scope analysis reads ranges
+                ranges: true
+            }) as AcornNode;
+
+            // Scope analysis expects the typescript-estree shape, where classes and
+            // parameters always list their decorators and classes their implements
+            this.walkAST(ast, (node: AcornNode) => {
+                if (DECORATED_NODES.has(node.type)) {
+                    node.decorators = node.decorators || [];
+                }
+                if (node.type === 'ClassDeclaration' || node.type === 'ClassExpression') {
+                    node.implements = node.implements || [];
+                }
+                for (const param of node.params || []) {
+                    param.decorators = param.decorators || [];
+                }
+            });
+
+            return ast;
+        }
+
+        const ast = parseTypeScript(content, {
+            range: true,
+            jsx: languageId === 'typescriptreact'
+        }) as unknown as AcornNode;
+
+        // typescript-estree reports offsets as ranges; the detectors read Acorn's start and end
+        this.walkAST(ast, (node: AcornNode) => {
+            if (node.range) {
+                node.start = node.range[0];
+                node.end = node.range[1];
+            }
+        });
+
+        return ast;
+    }
+
+    /**
+     * Find the identifiers that refer to globals. References that resolve to a
+     * declaration in the file, such as locals, parameters and imports named
+     * like a browser global, are left out.
+     */
+    private findGlobalReferences(scopeManager: ScopeManager): Set<AcornNode> {
+        const globalReferences = new Set<AcornNode>();
+
+        for (const scope of scopeManager.scopes) {
+            for (const reference of scope.references) {
+                // Variables without definitions are implicit globals from the TypeScript lib
+                if (!reference.resolved || reference.resolved.defs.length === 0) {
+                    globalReferences.add(reference.identifier as unknown as AcornNode);
+                }
+            }
         }
 
-        // Basic TypeScript stripping - remove type annotations
-        // This is a simplified approach; a full implementation would use the TypeScript compiler API
-        return content
-            // Remove type annotations from variables: let x: string = ...
-            .replace(/:\s*[A-Za-z_$][A-Za-z0-9_$<>[\]|&\s]*(?=\s*[=;,)])/g, '')
-            // Remove interface declarations
-            .replace(/interface\s+[A-Za-z_$][A-Za-z0-9_$]*\s*{[^}]*}/g, '')
-            // Remove type declarations
-            .replace(/type\s+[A-Za-z_$][A-Za-z0-9_$]*\s*=[^;]+;/g, '')
-            // Remove generic type parameters
-            .replace(/<[A-Za-z_$][A-Za-z0-9_$<>[\]|&\s,]*>/g, '')
-            // Remove as type assertions
-            .replace(/\s+as\s+[A-Za-z_$][A-Za-z0-9_$<>[\]|&\s]*/g, '')
-            // Remove non-null assertions
-            .replace(/!/g, '');
+        return globalReferences;
     }
 
-    private detectAPIs(ast: AcornNode, content: string, document: vscode.TextDocument): DetectedFeature[] {
+    /**
+     * Infer which built-in the object of each member expression is an instance
+     * of, e.g. Array for items in items.at(-1). Types come from literals,
+     * constructors, built-in methods with a known result and TypeScript
+     * annotations; variables are followed to their declaration.
+     */
+    private inferReceiverTypes(ast: AcornNode, scopeManager: ScopeManager, globalReferences: Set<AcornNode>): Map<AcornNode, string> {
+        const declaredReferences = new Map<AcornNode, Variable>();
+        for (const scope of scopeManager.scopes) {
+            for (const reference of scope.references) {
+                if (reference.resolved && reference.resolved.defs.length > 0) {
+                    declaredReferences.set(reference.identifier as unknown as AcornNode, reference.resolved);
+                }
+            }
+        }
+
+        const variableTypes = new Map<Variable, string | undefined>();
+        const receiverTypes = new Map<AcornNode, string>();
+
+        this.walkAST(ast, (node: AcornNode) => {
+            if (node.type === 'MemberExpression' && !node.computed && node.object) {
+                const type = this.inferType(node.object, globalReferences, declaredReferences, variableTypes);
+                if (type) {
+                    receiverTypes.set(node, type);
+                }
+            }
+        });
+
+        return receiverTypes;
+    }
+
+    private inferType(
+        node: AcornNode,
+        globalReferences: Set<AcornNode>,
+        declaredReferences: Map<AcornNode, Variable>,
+        variableTypes: Map<Variable, string | undefined>
+    ): string | undefined {
+        switch (node.type) {
+            case 'ArrayExpression':
+                return 'Array';
+            case 'TemplateLiteral':
+                return 'String';
+            case 'Literal': {
+                if (node.regex) {
+                    return 'RegExp';
+                }
+                if (node.bigint) {
+                    return 'BigInt';
+                }
+                const value: unknown = node.value;
+                return typeof value === 'string' ? 'String' : typeof value === 'number' ? 'Number' : undefined;
+            }
+            case 'NewExpression':
+                return node.callee?.type === 'Identifier' && globalReferences.has(node.callee)
+                    ? this.getBuiltinType(node.callee.name!)
+                    : undefined;
+            case 'CallExpression': {
+                const callee = node.callee;
+                if (callee?.type !== 'MemberExpression' || callee.computed || !callee.object) {
+                    return undefined;
+                }
+                const staticName = this.getGlobalMemberName(callee, globalReferences);
+                if (staticName) {
+                    return BUILTIN_RETURN_TYPES[staticName];
+                }
+                const receiverType = this.inferType(callee.object, globalReferences, declaredReferences, variableTypes);
+                return receiverType ? BUILTIN_RETURN_TYPES[`${receiverType}.${callee.property?.name}`] : undefined;
+            }
+            case 'TSAsExpression':
+            case 'TSSatisfiesExpression':
+                return this.getAnnotatedType(node.typeAnnotation);
+            case 'TSNonNullExpression':
+                return node.expression && this.inferType(node.expression, globalReferences, declaredReferences, variableTypes);
+            case 'Identifier': {
+                const variable = declaredReferences.get(node);
+                return variable && this.inferVariableType(variable, globalReferences, declaredReferences, variableTypes);
+            }
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Get a variable's type from its TypeScript annotation or, when it is
+     * never reassigned, from its initializer
+     */
+    private inferVariableType(
+        variable: Variable,
+        globalReferences: Set<AcornNode>,
+        declaredReferences: Map<AcornNode, Variable>,
+        variableTypes: Map<Variable, string | undefined>
+    ): string | undefined {
+        if (variableTypes.has(variable)) {
+            return variableTypes.get(variable);
+        }
+        // Stops cycles such as let a = b, b = a.at(0)
+        variableTypes.set(variable, undefined);
+
+        if (variable.defs.length !== 1) {
+            return undefined;
+        }
+
+        const [definition] = variable.defs;
+        const name = definition.name as unknown as AcornNode;
+        let type = this.getAnnotatedType(name.typeAnnotation);
+
+        const declarator = definition.node as unknown as AcornNode;
+        const reassigned = variable.references.some(reference => reference.isWrite() && !reference.init);
+        if (!type && definition.type === 'Variable' && declarator.id === name && declarator.init && !reassigned) {
+            type = this.inferType(declarator.init, globalReferences, declaredReferences, variableTypes);
+        }
+
+        variableTypes.set(variable, type);
+        return type;
+    }
+
+    /**
+     * Get the built-in a TypeScript type annotation names, e.g. Array for
+     * string[], readonly string[] and Array<string>
+     */
+    private getAnnotatedType(annotation: AcornNode | undefined): string | undefined {
+        if (!annotation) {
+            return undefined;
+        }
+        if (annotation.type === 'TSTypeAnnotation' || annotation.type === 'TSTypeOperator') {
+            return this.getAnnotatedType(annotation.typeAnnotation);
+        }
+        if (annotation.type === 'TSTypeReference' && annotation.typeName?.type === 'Identifier') {
+            const name = annotation.typeName.name!;
+            return name === 'ReadonlyArray' ? 'Array' : this.getBuiltinType(name);
+        }
+        return TS_KEYWORD_TYPES[annotation.type];
+    }
+
+    /**
+     * Get the name back if it is a JavaScript built-in with compatibility data
+     */
+    private getBuiltinType(name: string): string | undefined {
+        const bcdKey = `javascript.builtins.${name}`;
+        return this.compatibilityService.getFeatureStatus(bcdKey) || this.compatibilityService.getBCDStatus(bcdKey)
+            ? name
+            : undefined;
+    }
+
+    /**
+     * Get the name of a member expression on a global, without the global object
+     * prefix, e.g. "navigator.share" or "fetch" for window.fetch. Returns an
+     * empty string for members of locals, `this` and call results.
+     */
+    private getGlobalMemberName(node: AcornNode, globalReferences: Set<AcornNode>): string {
+        let root = node;
+        while (root.type === 'MemberExpression' && root.object) {
+            root = root.object;
+        }
+        if (root.type !== 'Identifier' || !globalReferences.has(root)) {
+            return '';
+        }
+
+        const memberName = this.getMemberExpressionName(node);
+        const [object, ...members] = memberName.split('.');
+        return GLOBAL_OBJECT_NAMES.has(object) && members.length > 0 ? members.join('.') : memberName;
+    }
+
+    private detectAPIs(ast: AcornNode, content: string, document: vscode.TextDocument, globalReferences: Set<AcornNode>): DetectedFeature[] {
         const features: DetectedFeature[] = [];
         
         this.walkAST(ast, (node: AcornNode) => {
             // Detect API usage through member expressions and identifiers
-            if (node.type === 'MemberExpression') {
-                const apiName = this.getMemberExpressionName(node);
+            const apiName = node.type === 'MemberExpression' ? this.getGlobalMemberName(node, globalReferences) : '';
+            if (apiName) {
                 const bcdKey = this.compatibilityService.mapJSAPIToBCD(apiName);
                 let baselineStatus = this.compatibilityService.getFeatureStatus(bcdKey);
                 
@@ -131,9 +468,10 @@ export class JavaScriptAnalyzer extends AbstractBaseAnalyzer {
             
             // Detect API constructors and global objects
             if (node.type === 'Identifier' || node.type === 'NewExpression') {
-                const name = node.type === 'NewExpression' && node.callee?.type === 'Identifier' 
-                    ? node.callee.name 
-                    : node.name;
+                const identifier = node.type === 'NewExpression' ? node.callee : node;
+                const name = identifier?.type === 'Identifier' && globalReferences.has(identifier)
+                    ? identifier.name
+                    : undefined;
                 
                 if (name) {
                     const bcdKey = this.compatibilityService.mapJSAPIToBCD(name);
@@ -227,13 +565,19 @@ export class JavaScriptAnalyzer extends AbstractBaseAnalyzer {
         return features;
     }
 
-    private detectBuiltins(ast: AcornNode, content: string, document: vscode.TextDocument): DetectedFeature[] {
+    private detectBuiltins(
+        ast: AcornNode,
+        content: string,
+        document: vscode.TextDocument,
+        globalReferences: Set<AcornNode>,
+        receiverTypes: Map<AcornNode, string>
+    ): DetectedFeature[] {
         const features: DetectedFeature[] = [];
         
         this.walkAST(ast, (node: AcornNode) => {
             // Detect built-in objects and methods
-            if (node.type === 'MemberExpression') {
-                const memberName = this.getMemberExpressionName(node);
+            const memberName = node.type === 'MemberExpression' ? this.getGlobalMemberName(node, globalReferences) : '';
+            if (memberName) {
                 const bcdKey = `javascript.builtins.${memberName.replace('.', '.')}`;
                 const baselineStatus = this.compatibilityService.getFeatureStatus(bcdKey);
                 
@@ -258,9 +602,44 @@ export class JavaScriptAnalyzer extends AbstractBaseAnalyzer {
                 }
             }
 
+            // Detect methods on instances of built-ins, e.g. items.at(-1) on an array
+            const receiverType = node.type === 'MemberExpression' ? receiverTypes.get(node) : undefined;
+            if (receiverType && node.property?.type === 'Identifier') {
+                const bcdKey = `javascript.builtins.${receiverType}.${node.property.name}`;
+                const methodName = `${receiverType}.prototype.${node.property.name}`;
+                let baselineStatus = this.compatibilityService.getFeatureStatus(bcdKey);
+                
+                // Try BCD lookup if web-features lookup fails
+                if (!baselineStatus) {
+                    baselineStatus = this.compatibilityService.getBCDStatus(bcdKey);
+                }
+                
+                if (baselineStatus && !this.isStaticMember(bcdKey) && this.shouldAnalyzeFeature(bcdKey)) {
+                    // Range the method name, which stays short in long call chains
+                    const position = this.getPositionFromOffset(content, node.property.start);
+                    const endPosition = this.getPositionFromOffset(content, node.property.end);
+                    const range = this.createRange(
+                        position.line,
+                        position.character,
+                        endPosition.line,
+                        endPosition.character
+                    );
+
+                    features.push(this.createDetectedFeature(
+                        bcdKey,
+                        methodName,
+                        'javascript',
+                        range,
+                        baselineStatus,
+                        `Built-in: ${methodName}`
+                    ));
+                }
+            }
+
             // Detect built-in constructors
             if (node.type === 'Identifier' || (node.type === 'NewExpression' && node.callee?.type === 'Identifier')) {
-                const name = node.type === 'NewExpression' ? node.callee!.name : node.name;
+                const identifier = node.type === 'NewExpression' ? node.callee! : node;
+                const name = globalReferences.has(identifier) ? identifier.name : undefined;
                 
                 if (name && ['Promise', 'Map', 'Set', 'WeakMap', 'WeakSet', 'Symbol', 'Proxy'].includes(name)) {
                     const bcdKey = `javascript.builtins.${name}`;
@@ -292,11 +671,347 @@ export class JavaScriptAnalyzer extends AbstractBaseAnalyzer {
         return features;
     }
 
+    /**
+     * BCD lists the static and prototype members of a built-in side by side;
+     * the ECMAScript spec anchor tells them apart, e.g. #sec-map.groupby for
+     * Map.groupBy but #sec-array.prototype.at for Array.prototype.at
+     */
+    private isStaticMember(bcdKey: string): boolean {
+        const [, , type, member] = bcdKey.split('.');
+        const specUrl = this.compatibilityService.getBCDData(bcdKey)?.spec_url;
+        const specUrls: string[] = Array.isArray(specUrl) ? specUrl : specUrl ? [specUrl] : [];
+        const staticAnchor = `#sec-${type}.${member}`.toLowerCase();
+
+        return specUrls.some(url => url.toLowerCase().endsWith(staticAnchor));
+    }
+
+    /**
+     * Mark features that only run after a feature check for them passes: inside
+     * if/ternary branches and && operands, after an early return when the check
+     * fails, and optional calls such as navigator.share?.()
+     */
+    private applyFeatureGuards(
+        ast: AcornNode,
+        content: string,
+        features: DetectedFeature[],
+        globalReferences: Set<AcornNode>
+    ): DetectedFeature[] {
+        const regions: GuardedRegion[] = [];
+        const addRegion = (
+            conditions: GuardCondition[],
+            nodes: ({ start: number; end: number } | null | undefined)[],
+            description = conditions.map(condition => condition.description).join(' && ')
+        ) => {
+            if (conditions.length === 0) {
+                return;
+            }
+
+            const bcdKeys = new Set(conditions.map(condition => condition.bcdKey));
+            const guard: FeatureGuard = { kind: 'feature-detection', description };
+            for (const node of nodes) {
+                if (node) {
+                    regions.push({ start: node.start, end: node.end, bcdKeys, webFeatureIds: this.getWebFeatureIds(bcdKeys), guard });
+                }
+            }
+        };
+
+        // The checked operand only runs where the feature exists, whichever way the check goes
+        const addCheckedOperands = (test: AcornNode) => {
+            const description = content.slice(test.start, test.end);
+            for (const operand of this.getCheckedOperands(test, globalReferences)) {
+                const name = this.getGuardedName(operand, globalReferences);
+                addRegion([{ bcdKey: this.compatibilityService.mapJSAPIToBCD(name), description }], [operand]);
+            }
+        };
+
+        this.walkAST(ast, (node: AcornNode) => {
+            if ((node.type === 'IfStatement' || node.type === 'ConditionalExpression') && node.test) {
+                addRegion(this.getGuardConditions(node.test, false, content, globalReferences), [node.test, node.consequent]);
+                // Negated conditions describe the check as written, e.g. !navigator.share rather than navigator.share
+                addRegion(this.getGuardConditions(node.test, true, content, globalReferences), [node.alternate],
+                    content.slice(node.test.start, node.test.end));
+                addCheckedOperands(node.test);
+            } else if (node.type === 'LogicalExpression' && node.left && (node.operator === '&&' || node.operator === '||')) {
+                // a && b runs b when a passes, a || b when a fails
+                addRegion(this.getGuardConditions(node.left, node.operator === '||', content, globalReferences), [node.left, node.right],
+                    content.slice(node.left.start, node.left.end));
+                addCheckedOperands(node.left);
+            } else if (node.type === 'BinaryExpression' && node.left && node.right && ['===', '!==', '==', '!='].includes(node.operator!)) {
+                // typeof never throws, so typeof X === 'undefined' is a check of X rather than a use
+                const typeofNode = [node.left, node.right].find(side => side.type === 'UnaryExpression' && side.operator === 'typeof');
+                const name = typeofNode?.argument ? this.getGuardedName(typeofNode.argument, globalReferences) : '';
+                if (name) {
+                    const description = content.slice(node.start, node.end);
+                    addRegion([{ bcdKey: this.compatibilityService.mapJSAPIToBCD(name), description }], [typeofNode!.argument]);
+                }
+            } else if (node.type === 'CallExpression' && node.optional && node.callee) {
+                const name = node.callee.type === 'Identifier' && globalReferences.has(node.callee)
+                    ? node.callee.name!
+                    : this.getGlobalMemberName(node.callee, globalReferences);
+                if (name) {
+                    const description = `${content.slice(node.callee.start, node.callee.end)}?.()`;
+                    addRegion([{ bcdKey: this.compatibilityService.mapJSAPIToBCD(name), description }], [node.callee]);
+                }
+            }
+
+            // if (!('share' in navigator)) return; guards the rest of the block
+            if (Array.isArray(node.body)) {
+                const statements = node.body;
+                statements.forEach((statement, index) => {
+                    if (statement.type === 'IfStatement' && statement.test && !statement.alternate &&
+                        statement.consequent && this.alwaysExits(statement.consequent) && index < statements.length - 1) {
+                        addRegion(this.getGuardConditions(statement.test, true, content, globalReferences), [{
+                            start: statements[index + 1].start,
+                            end: statements[statements.length - 1].end
+                        }], content.slice(statement.test.start, statement.test.end));
+                    }
+                });
+            }
+        });
+
+        if (regions.length === 0) {
+            return features;
+        }
+
+        return features.map(feature => {
+            const offset = this.getOffsetFromPosition(content, feature.range.start);
+            const webFeatureId = this.compatibilityService.getWebFeatureId(feature.id);
+
+            // Walk order puts outer regions first, so the last match is the innermost guard
+            const match = regions.filter(region =>
+                offset >= region.start && offset < region.end &&
+                ([...region.bcdKeys].some(bcdKey => feature.id === bcdKey || feature.id.startsWith(`${bcdKey}.`)) ||
+                    (!!webFeatureId && region.webFeatureIds.has(webFeatureId)))
+            ).pop();
+
+            return match ? { ...feature, guard: match.guard } : feature;
+        });
+    }
+
+    /**
+     * Find the feature checks that hold when a condition is truthy, or falsy when
+     * negated: 'X' in window, typeof X !== 'undefined', CSS.supports(...) and
+     * plain truthiness checks such as if (navigator.share)
+     */
+    private getGuardConditions(test: AcornNode, negated: boolean, content: string, globalReferences: Set<AcornNode>): GuardCondition[] {
+        const description = content.slice(test.start, test.end);
+
+        if (test.type === 'UnaryExpression' && test.operator === '!' && test.argument) {
+            return this.getGuardConditions(test.argument, !negated, content, globalReferences);
+        }
+
+        if (test.type === 'LogicalExpression' && test.left && test.right) {
+            // Both sides hold when a && b passes, or when a || b fails
+            if ((test.operator === '&&' && !negated) || (test.operator === '||' && negated)) {
+                return [
+                    ...this.getGuardConditions(test.left, negated, content, globalReferences),
+                    ...this.getGuardConditions(test.right, negated, content, globalReferences)
+                ];
+            }
+            return [];
+        }
+
+        if (test.type === 'BinaryExpression' && test.operator === 'in' && test.left && test.right) {
+            const member = test.left.type === 'Literal' && typeof test.left.value === 'string' ? test.left.value as string : '';
+            const objectName = test.right.type === 'Identifier' && globalReferences.has(test.right)
+                ? test.right.name!
+                : this.getGlobalMemberName(test.right, globalReferences);
+            if (!member || !objectName || negated) {
+                return [];
+            }
+
+            const name = GLOBAL_OBJECT_NAMES.has(objectName) ? member : `${objectName}.${member}`;
+            return [{ bcdKey: this.compatibilityService.mapJSAPIToBCD(name), description }];
+        }
+
+        if (test.type === 'BinaryExpression' && test.left && test.right && ['===', '!==', '==', '!='].includes(test.operator!)) {
+            const [typeofNode, literal] = test.left.type === 'UnaryExpression' ? [test.left, test.right] : [test.right, test.left];
+            if (typeofNode.operator !== 'typeof' || !typeofNode.argument || literal.type !== 'Literal' || typeof literal.value !== 'string') {
+                return [];
+            }
+
+            // typeof X === 'function' and typeof X !== 'undefined' pass when X exists
+            const checksExists = test.operator!.startsWith('=') !== (literal.value === 'undefined');
+            const name = this.getGuardedName(typeofNode.argument, globalReferences);
+            return name && checksExists !== negated
+                ? [{ bcdKey: this.compatibilityService.mapJSAPIToBCD(name), description }]
+                : [];
+        }
+
+        if (test.type === 'CallExpression' && test.callee && !negated &&
+            this.getGlobalMemberName(test.callee, globalReferences) === 'CSS.supports') {
+            return this.getCSSSupportsKeys(test.arguments || []).map(bcdKey => ({ bcdKey, description }));
+        }
+
+        const name = negated ? '' : this.getGuardedName(test, globalReferences);
+        return name ? [{ bcdKey: this.compatibilityService.mapJSAPIToBCD(name), description }] : [];
+    }
+
+    /**
+     * Find the globals a condition tests for truthiness, e.g. navigator.share
+     * in !navigator.share or in window.fetch && navigator.share
+     */
+    private getCheckedOperands(test: AcornNode, globalReferences: Set<AcornNode>): AcornNode[] {
+        if (test.type === 'UnaryExpression' && test.operator === '!' && test.argument) {
+            return this.getCheckedOperands(test.argument, globalReferences);
+        }
+
+        if (test.type === 'LogicalExpression' && test.left && test.right && (test.operator === '&&' || test.operator === '||')) {
+            return [...this.getCheckedOperands(test.left, globalReferences), ...this.getCheckedOperands(test.right, globalReferences)];
+        }
+
+        return this.getGuardedName(test, globalReferences) ? [test] : [];
+    }
+
+    /**
+     * Get the global a guard tests, e.g. "structuredClone" or "navigator.share"
+     */
+    private getGuardedName(node: AcornNode, globalReferences: Set<AcornNode>): string {
+        if (node.type === 'Identifier') {
+            return globalReferences.has(node) ? node.name! : '';
+        }
+
+        return node.type === 'MemberExpression' ? this.getGlobalMemberName(node, globalReferences) : '';
+    }
+
+    /**
+     * Get the CSS property keys tested by CSS.supports('display', 'grid') or
+     * CSS.supports('(display: grid)')
+     */
+    private getCSSSupportsKeys(args: AcornNode[]): string[] {
+        const values = args.map(arg => arg.type === 'Literal' && typeof arg.value === 'string' ? arg.value as string : '');
+        if (values.length === 2 && values[0]) {
+            return [this.compatibilityService.mapCSSPropertyToBCD(values[0].trim().toLowerCase(), values[1].trim().toLowerCase())];
+        }
+
+        const declarations = values.length === 1 ? values[0].matchAll(/([a-z-]+)\s*:\s*([^;()]+)/gi) : [];
+        return [...declarations].map(match =>
+            this.compatibilityService.mapCSSPropertyToBCD(match[1].toLowerCase(), match[2].trim().toLowerCase())
+        );
+    }
+
+    /**
+     * Whether a statement always returns or throws, e.g. the body of an early exit
+     */
+    private alwaysExits(statement: AcornNode): boolean {
+        if (statement.type === 'ReturnStatement' || statement.type === 'ThrowStatement') {
+            return true;
+        }
+
+        const body = statement.type === 'BlockStatement' && Array.isArray(statement.body) ? statement.body : [];
+        return body.length > 0 && this.alwaysExits(body[body.length - 1]);
+    }
+
+    private getWebFeatureIds(bcdKeys: Set<string>): Set<string> {
+        return new Set([...bcdKeys]
+            .map(bcdKey => this.compatibilityService.getWebFeatureId(bcdKey))
+            .filter((id): id is string => !!id));
+    }
+
+    /**
+     * Convert a position back into an offset in the content
+     */
+    private getOffsetFromPosition(content: string, position: vscode.Position): number {
+        const lines = content.split('\n');
+        let offset = position.character;
+        for (let i = 0; i < position.line && i < lines.length; i++) {
+            offset += lines[i].length + 1;
+        }
+
+        return offset;
+    }
+
+    /**
+     * Detect HTML elements and attributes used as JSX intrinsic elements, e.g.
+     * <dialog> or <img loading="lazy">. Components are skipped.
+     */
+    private detectJSXElements(ast: AcornNode, content: string, document: vscode.TextDocument): DetectedFeature[] {
+        const features: DetectedFeature[] = [];
+
+        const addFeature = (bcdKey: string, name: string, node: AcornNode, context: string) => {
+            const baselineStatus = this.compatibilityService.getFeatureStatus(bcdKey) || this.compatibilityService.getBCDStatus(bcdKey);
+            if (baselineStatus && this.shouldAnalyzeFeature(bcdKey)) {
+                const position = this.getPositionFromOffset(content, node.start);
+                const endPosition = this.getPositionFromOffset(content, node.end);
+                const range = this.createRange(position.line, position.character, endPosition.line, endPosition.character);
+                features.push(this.createDetectedFeature(bcdKey, name, 'html', range, baselineStatus, context));
+            }
+        };
+
+        this.walkAST(ast, (node: AcornNode) => {
+            if (node.type !== 'JSXOpeningElement') {
+                return;
+            }
+
+            // Intrinsic elements are lowercase identifiers; <Foo> and <foo.Bar> are components
+            const nameNode = (node as unknown as { name: AcornNode }).name;
+            if (nameNode.type !== 'JSXIdentifier' || !nameNode.name || !/^[a-z]/.test(nameNode.name)) {
+                return;
+            }
+
+            const elementName = nameNode.name;
+            addFeature(this.compatibilityService.mapHTMLElementToBCD(elementName), elementName, nameNode, `JSX element: <${elementName}>`);
+
+            for (const attribute of node.attributes || []) {
+                const attributeNameNode = (attribute as unknown as { name: AcornNode }).name;
+                if (attribute.type !== 'JSXAttribute' || attributeNameNode.type !== 'JSXIdentifier' || !attributeNameNode.name) {
+                    continue;
+                }
+
+                const prop = attributeNameNode.name;
+                const attrName = JSX_ATTRIBUTE_NAMES[prop] || prop.toLowerCase();
+                addFeature(
+                    this.compatibilityService.mapHTMLElementToBCD(elementName, attrName),
+                    attrName,
+                    attribute,
+                    `JSX attribute: ${prop} on <${elementName}>`
+                );
+            }
+        });
+
+        return features;
+    }
+
+    /**
+     * Detect media features in the query strings passed to the global
+     * matchMedia(), called directly or through window or globalThis
+     */
+    private detectMediaQueries(ast: AcornNode, content: string, globalReferences: Set<AcornNode>): DetectedFeature[] {
+        const features: DetectedFeature[] = [];
+
+        this.walkAST(ast, (node: AcornNode) => {
+            const isMatchMedia = node.type === 'CallExpression' && !!node.callee &&
+                this.getGuardedName(node.callee, globalReferences) === 'matchMedia';
+            const query = isMatchMedia ? node.arguments?.[0] : undefined;
+            if (!query) {
+                return;
+            }
+
+            // Use the raw source text so offsets match the document
+            if (query.type === 'Literal' && typeof query.raw === 'string' && /^['"]/.test(query.raw)) {
+                features.push(...this.detectMediaQueryFeatures(content, query.start + 1, query.raw.slice(1, -1), 'javascript'));
+            } else if (query.type === 'TemplateLiteral' && query.quasis?.length === 1) {
+                features.push(...this.detectMediaQueryFeatures(content, query.start + 1, query.quasis[0].value.raw, 'javascript'));
+            }
+        });
+
+        return features;
+    }
+
     private walkAST(node: AcornNode, callback: (node: AcornNode) => void): void {
+        // Type-only TypeScript code and ambient declarations never run
+        if (TYPE_ONLY_NODES.has(node.type) || node.declare || node.importKind === 'type' || node.exportKind === 'type') {
+            return;
+        }
+
         callback(node);
 
         // Recursively walk all child nodes
         for (const key in node) {
+            if (TYPE_ONLY_KEYS.has(key)) {
+                continue;
+            }
+
             const value = (node as any)[key];
             if (value && typeof value === 'object') {
                 if (Array.isArray(value)) {
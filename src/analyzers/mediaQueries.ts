@@ -0,0 +1,73 @@
+/**
+ * Helpers for finding media features in media query lists, shared by CSS
+ * @media rules, HTML media attributes and matchMedia() calls
+ */
+
+/**
+ * A media feature or media query syntax found in a query, located by its
+ * offset in the query text
+ */
+export interface MediaQueryFeature {
+    bcdKey: string;
+    name: string;
+    index: number;
+    length: number;
+}
+
+const MEDIA_BCD_KEY = 'css.at-rules.media';
+const RANGE_OPERATOR = /<=|>=|<|>|=/;
+
+/**
+ * Find the media features in a media query list, e.g. (prefers-reduced-motion)
+ * or (min-width: 600px), along with range syntax such as (width >= 600px) and
+ * the or keyword. min- and max- prefixed features resolve to the base feature.
+ */
+export function parseMediaQueryFeatures(query: string): MediaQueryFeature[] {
+    const features: MediaQueryFeature[] = [];
+    // Innermost parentheses are media features; replacing them with spaces keeps offsets for the keyword search
+    let outerText = query;
+    const featurePattern = /\(([^()]*)\)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = featurePattern.exec(query)) !== null) {
+        const body = match[1];
+        const bodyIndex = match.index + 1;
+        outerText = outerText.slice(0, match.index) + ' '.repeat(match[0].length) + outerText.slice(match.index + match[0].length);
+
+        const colon = body.indexOf(':');
+        const operator = RANGE_OPERATOR.exec(body);
+        const nameText = colon !== -1
+            ? body.slice(0, colon)
+            : operator
+                ? body.split(/<=|>=|<|>|=/).find(part => /^\s*-?[a-z][a-z0-9-]*\s*$/i.test(part)) || ''
+                : body;
+        const name = nameText.trim();
+        if (!/^-?[a-z][a-z0-9-]*$/i.test(name)) {
+            continue;
+        }
+
+        const feature = name.toLowerCase().replace(/^(min|max)-/, '');
+        features.push({
+            bcdKey: `${MEDIA_BCD_KEY}.${feature}`,
+            name,
+            index: bodyIndex + body.indexOf(name),
+            length: name.length
+        });
+
+        if (colon === -1 && operator) {
+            features.push({
+                bcdKey: `${MEDIA_BCD_KEY}.range_syntax`,
+                name: operator[0],
+                index: bodyIndex + operator.index,
+                length: operator[0].length
+            });
+        }
+    }
+
+    const orPattern = /\bor\b/gi;
+    while ((match = orPattern.exec(outerText)) !== null) {
+        features.push({ bcdKey: `${MEDIA_BCD_KEY}.or_syntax`, name: 'or', index: match.index, length: 2 });
+    }
+
+    return features;
+}
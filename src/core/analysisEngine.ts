@@ -277,7 +277,7 @@ export class AnalysisEngine {
         
         // Map common language IDs to file extensions
         const languageExtensions: { [key: string]: string[] } = {
-            'css': ['css', 'scss', 'sass', 'less'],
+            'css': ['css', 'scss', 'sass', 'less', 'styl'],
             'javascript': ['js', 'jsx', 'mjs'],
             'typescript': ['ts', 'tsx'],
             'html': ['html', 'htm'],
@@ -0,0 +1,60 @@
+/**
+ * Helpers for working with browser version strings from BCD and Browserslist
+ */
+
+/**
+ * Browserslist (caniuse) agent names mapped to BCD browser identifiers.
+ * Agents without BCD data (e.g. and_uc, op_mini, kaios) are not listed.
+ */
+export const BROWSERSLIST_AGENT_TO_BCD: { [agent: string]: string } = {
+    chrome: 'chrome',
+    edge: 'edge',
+    firefox: 'firefox',
+    safari: 'safari',
+    ie: 'ie',
+    opera: 'opera',
+    ios_saf: 'safari_ios',
+    and_chr: 'chrome_android',
+    and_ff: 'firefox_android',
+    android: 'webview_android',
+    samsung: 'samsunginternet_android',
+    op_mob: 'opera_android'
+};
+
+/**
+ * Compare two dotted version strings numerically.
+ * Returns a negative number if a < b, positive if a > b and 0 if equal.
+ */
+export function compareBrowserVersions(a: string, b: string): number {
+    const aParts = a.split('.').map(part => parseInt(part, 10) || 0);
+    const bParts = b.split('.').map(part => parseInt(part, 10) || 0);
+    const length = Math.max(aParts.length, bParts.length);
+
+    for (let i = 0; i < length; i++) {
+        const diff = (aParts[i] || 0) - (bParts[i] || 0);
+        if (diff !== 0) {
+            return diff;
+        }
+    }
+
+    return 0;
+}
+
+/**
+ * Browsers a feature must ship in before it becomes Baseline, matching the
+ * core browser set used by web-features
+ */
+export const BASELINE_CORE_BROWSERS: string[] = [
+    'chrome',
+    'chrome_android',
+    'edge',
+    'firefox',
+    'firefox_android',
+    'safari',
+    'safari_ios'
+];
+
+/**
+ * Months between a feature becoming newly available and widely available
+ */
+export const BASELINE_HIGH_MONTHS = 30;
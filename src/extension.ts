@@ -8,6 +8,9 @@ import { ConfigurationService } from './services/configurationService';
 import { CommandManager } from './core/commandManager';
 import { CodeActionCommands } from './services/codeActionProvider';
 import { CLIIntegrationService } from './services/cliIntegrationService';
+import { DataSnapshotService } from './services/dataSnapshotService';
+import { FeatureExplorerService } from './services/featureExplorerService';
+import { FeatureCatalogProvider } from './services/featureCatalogProvider';
 
 let analysisEngine: AnalysisEngine;
 let compatibilityService: CompatibilityDataService;
@@ -17,6 +20,9 @@ let reportGenerator: ReportGenerator;
 let configurationService: ConfigurationService;
 let commandManager: CommandManager;
 let cliIntegrationService: CLIIntegrationService;
+let dataSnapshotService: DataSnapshotService;
+let featureExplorerService: FeatureExplorerService;
+let featureCatalogProvider: FeatureCatalogProvider;
 
 /**
  * Generate and export a baseline compatibility report
@@ -130,6 +136,124 @@ async function generateBaselineReport(): Promise<void> {
     }
 }
 
+/**
+ * Ask for a compatibility dataset to compare and load it into its own service
+ * so the data used for live analysis is left untouched
+ */
+async function pickComparisonData(title: string, includeActive: boolean): Promise<CompatibilityDataService | undefined> {
+    const choices = [
+        ...(includeActive ? [{ label: 'Active data', value: 'active', description: dataSnapshotService.describeVersion(compatibilityService.getDataVersion()) }] : []),
+        { label: 'Bundled data', value: 'bundled', description: dataSnapshotService.describeVersion(CompatibilityDataService.getBundledDataVersion()) },
+        { label: 'Snapshot directory...', value: 'snapshot', description: 'Choose a directory containing web-features and/or BCD JSON files' }
+    ];
+
+    const choice = await vscode.window.showQuickPick(choices, { placeHolder: title, title: 'Baseline Lens Data Comparison' });
+    if (!choice) {
+        return undefined;
+    }
+
+    if (choice.value === 'active') {
+        return compatibilityService;
+    }
+
+    const data = new CompatibilityDataService();
+    await data.initialize();
+    data.setCoreBrowsers(compatibilityService.getCoreBrowsers());
+
+    if (choice.value === 'snapshot') {
+        const folders = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            openLabel: 'Use Snapshot'
+        });
+        if (!folders || folders.length === 0) {
+            return undefined;
+        }
+
+        const snapshot = await dataSnapshotService.loadSnapshot(folders[0].fsPath);
+        data.loadData(snapshot.webFeatures, snapshot.bcd, snapshot.version, snapshot.catalog);
+    }
+
+    return data;
+}
+
+/**
+ * Generate and export a report of workspace features whose compatibility
+ * data differs between two datasets
+ */
+async function generateDataUpdateReport(): Promise<void> {
+    try {
+        if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
+            vscode.window.showErrorMessage('No workspace folder found. Please open a project to compare compatibility data.');
+            return;
+        }
+
+        const previousData = await pickComparisonData('Select the previous compatibility data', false);
+        if (!previousData) {
+            return;
+        }
+        const currentData = await pickComparisonData('Select the updated compatibility data', true);
+        if (!currentData) {
+            return;
+        }
+
+        const format = await vscode.window.showQuickPick(
+            [
+                { label: 'JSON', value: 'json', description: 'Machine-readable format for CI/CD integration' },
+                { label: 'Markdown', value: 'markdown', description: 'Human-readable changelog' }
+            ],
+            {
+                placeHolder: 'Select report format',
+                title: 'Baseline Lens Report Format'
+            }
+        );
+        if (!format) {
+            return;
+        }
+
+        const report = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: 'Comparing Compatibility Data'
+            },
+            progress => reportGenerator.generateDataUpdateReport(previousData, currentData, (_value, message) => {
+                progress.report({ message });
+            })
+        );
+
+        const exportedContent = reportGenerator.exportDataUpdateReport(report, format.value as 'json' | 'markdown');
+        const fileExtension = format.value === 'json' ? 'json' : 'md';
+        const timestamp = new Date().toISOString().split('T')[0];
+
+        const saveUri = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.joinPath(
+                vscode.workspace.workspaceFolders[0].uri,
+                `baseline-data-update-${timestamp}.${fileExtension}`
+            ),
+            filters: format.value === 'json'
+                ? { 'JSON Files': ['json'] }
+                : { 'Markdown Files': ['md'] }
+        });
+
+        if (saveUri) {
+            await vscode.workspace.fs.writeFile(saveUri, Buffer.from(exportedContent, 'utf8'));
+
+            const openAction = 'Open Report';
+            const result = await vscode.window.showInformationMessage(
+                `Data update report generated: ${report.changes.length} of ${report.changes.length + report.unchangedFeatures} features used in this workspace changed.`,
+                openAction
+            );
+            if (result === openAction) {
+                await vscode.window.showTextDocument(saveUri);
+            }
+        }
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(`Failed to generate data update report: ${errorMessage}`);
+    }
+}
+
 export async function activate(context: vscode.ExtensionContext) {
     console.log('Baseline Lens extension is now active');
     
@@ -150,12 +274,30 @@ export async function activate(context: vscode.ExtensionContext) {
         // Initialize core services with error handling
         compatibilityService = new CompatibilityDataService();
         await compatibilityService.initialize();
-        
+
+        // Keep core browsers, browser targets, the Baseline target and the support threshold in sync with configuration.
+        // This listener is registered before the file watcher so re-analysis sees the new values.
+        compatibilityService.setCoreBrowsers(configurationService.getConfiguration().coreBrowsers);
+        compatibilityService.setBrowserTargets(configurationService.getBrowserTargets());
+        compatibilityService.setBaselineTarget(configurationService.getBaselineTarget());
+        compatibilityService.setSupportThreshold(configurationService.getConfiguration().supportThreshold);
+        context.subscriptions.push(configurationService.onConfigChanged(updatedConfig => {
+            compatibilityService.setCoreBrowsers(updatedConfig.coreBrowsers);
+            compatibilityService.setBrowserTargets(configurationService.getBrowserTargets());
+            compatibilityService.setBaselineTarget(configurationService.getBaselineTarget());
+            compatibilityService.setSupportThreshold(updatedConfig.supportThreshold);
+        }));
+
+        // Load the configured local data snapshot before the first analysis runs
+        dataSnapshotService = new DataSnapshotService(compatibilityService, configurationService);
+        await dataSnapshotService.initialize();
+
         analysisEngine = new AnalysisEngine();
         
         // Register analyzers with compatibility service
-        const { CSSAnalyzer, JavaScriptAnalyzer, HTMLAnalyzer } = await import('./analyzers');
-        analysisEngine.registerAnalyzer(['css', 'scss', 'sass', 'less'], new CSSAnalyzer(compatibilityService));
+        // Loaded on demand; require() keeps them in the main bundle, where import() would split them out
+        const { CSSAnalyzer, JavaScriptAnalyzer, HTMLAnalyzer } = require('./analyzers') as typeof import('./analyzers');
+        analysisEngine.registerAnalyzer(['css', 'scss', 'sass', 'less', 'stylus'], new CSSAnalyzer(compatibilityService));
         analysisEngine.registerAnalyzer(['javascript', 'typescript', 'javascriptreact', 'typescriptreact'], new JavaScriptAnalyzer(compatibilityService));
         analysisEngine.registerAnalyzer(['html', 'vue', 'svelte'], new HTMLAnalyzer(compatibilityService));
         
@@ -170,11 +312,20 @@ export async function activate(context: vscode.ExtensionContext) {
         
         uiService = new UIService(compatibilityService, configurationService);
         reportGenerator = new ReportGenerator(analysisEngine, compatibilityService);
+        featureExplorerService = new FeatureExplorerService(compatibilityService, analysisEngine);
+        featureCatalogProvider = new FeatureCatalogProvider(compatibilityService, analysisEngine);
+        context.subscriptions.push(vscode.window.registerTreeDataProvider('baseline-lens.featureCatalog', featureCatalogProvider));
         
         // Initialize file watcher service for real-time analysis
         fileWatcherService = new FileWatcherService(analysisEngine, uiService, configurationService);
         await fileWatcherService.initialize();
 
+        // Re-analyze open documents whenever the snapshot data is reloaded
+        context.subscriptions.push(dataSnapshotService.onDidChangeData(() => {
+            fileWatcherService.refreshAllDocuments();
+            featureCatalogProvider.refresh();
+        }));
+
         // Initialize CLI integration service (optional enhancement)
         cliIntegrationService = new CLIIntegrationService();
         await cliIntegrationService.initialize();
@@ -410,6 +561,36 @@ export async function activate(context: vscode.ExtensionContext) {
             vscode.window.showInformationMessage(message, { modal: true });
         });
 
+        const compareDataSuccess = await commandManager.registerCommand('baseline-lens.compareDataSnapshots', async () => {
+            await generateDataUpdateReport();
+        });
+
+        const searchFeaturesSuccess = await commandManager.registerCommand('baseline-lens.searchFeatures', async () => {
+            await featureExplorerService.showSearch();
+        });
+
+        // Opened from features in the catalog view
+        await commandManager.registerCommand(FeatureCatalogProvider.SHOW_DETAILS_COMMAND, async (featureId: string) => {
+            await featureExplorerService.showFeatureDetails(featureId);
+        });
+
+        const refreshCatalogSuccess = await commandManager.registerCommand('baseline-lens.refreshFeatureCatalog', () => {
+            featureCatalogProvider.refresh();
+        });
+
+        // Opened from the workspace usages listed in the feature detail view
+        await commandManager.registerCommand(FeatureExplorerService.OPEN_USAGE_COMMAND, async (filePath: string, line: number, character: number) => {
+            await featureExplorerService.openUsage(filePath, line, character);
+        });
+
+        const showDataVersionSuccess = await commandManager.registerCommand('baseline-lens.showDataVersion', () => {
+            const version = compatibilityService.getDataVersion();
+            const source = version.source === 'snapshot' ? `local snapshot at ${version.snapshotPath}` : 'bundled packages';
+            vscode.window.showInformationMessage(
+                `Baseline Lens compatibility data from ${source} (${dataSnapshotService.describeVersion(version)})`
+            );
+        });
+
         // Log walkthrough and utility command registration results
         if (!showWalkthroughSuccess) {
             console.warn('Failed to register baseline-lens.showWalkthrough command');
@@ -426,6 +607,18 @@ export async function activate(context: vscode.ExtensionContext) {
         if (!showErrorStatsSuccess) {
             console.warn('Failed to register baseline-lens.showErrorStats command');
         }
+        if (!showDataVersionSuccess) {
+            console.warn('Failed to register baseline-lens.showDataVersion command');
+        }
+        if (!searchFeaturesSuccess) {
+            console.warn('Failed to register baseline-lens.searchFeatures command');
+        }
+        if (!refreshCatalogSuccess) {
+            console.warn('Failed to register baseline-lens.refreshFeatureCatalog command');
+        }
+        if (!compareDataSuccess) {
+            console.warn('Failed to register baseline-lens.compareDataSnapshots command');
+        }
         if (!openSettingsSuccess) {
             console.warn('Failed to register baseline-lens.openSettings command');
         }
@@ -439,7 +632,10 @@ export async function activate(context: vscode.ExtensionContext) {
             commandManager, // CommandManager handles all command disposables
             uiService,
             analysisEngine,
-            cliIntegrationService
+            cliIntegrationService,
+            dataSnapshotService,
+            featureExplorerService,
+            featureCatalogProvider
         );
         
         // Check if any critical commands failed to register
@@ -540,7 +736,8 @@ export function deactivate() {
         { name: 'compatibilityService', service: compatibilityService, hasDispose: false },
         { name: 'configurationService', service: configurationService, hasDispose: true },
         { name: 'commandManager', service: commandManager, hasDispose: true },
-        { name: 'cliIntegrationService', service: cliIntegrationService, hasDispose: true }
+        { name: 'cliIntegrationService', service: cliIntegrationService, hasDispose: true },
+        { name: 'dataSnapshotService', service: dataSnapshotService, hasDispose: true }
     ];
     
     const disposalResults: { name: string; success: boolean; error?: Error }[] = [];
@@ -589,6 +786,7 @@ export function deactivate() {
         configurationService = undefined as any;
         commandManager = undefined as any;
         cliIntegrationService = undefined as any;
+        dataSnapshotService = undefined as any;
         
         console.log('Cleared all global service references');
     } catch (error) {
@@ -42,6 +42,10 @@ export class BaselineLensCodeActionProvider implements vscode.CodeActionProvider
         );
 
         for (const feature of relevantFeatures) {
+            if (feature.vendorPrefix) {
+                actions.push(this.createVendorPrefixAction(document, feature));
+            }
+
             // Only provide actions for features that need suggestions
             if (this.shouldProvideActions(feature)) {
                 const suggestion = this.suggestionEngine.generateSuggestions(feature);
@@ -120,6 +124,23 @@ export class BaselineLensCodeActionProvider implements vscode.CodeActionProvider
         return action;
     }
 
+    /**
+     * Create code action that removes a redundant vendor prefix or adds a missing one
+     */
+    private createVendorPrefixAction(document: vscode.TextDocument, feature: DetectedFeature): vscode.CodeAction {
+        const fix = feature.vendorPrefix!.fix;
+        const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+
+        action.diagnostics = this.getDiagnosticsForFeature(document, feature);
+        action.isPreferred = true;
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(document.uri, fix.range, fix.newText);
+        action.edit = edit;
+
+        return action;
+    }
+
     /**
      * Create code action for polyfill installation
      */
@@ -1,12 +1,55 @@
-import { BaselineStatus, WebFeature, WebFeatureDetails } from '../types';
+import { AudienceSupport, BaselineStatus, BrowserSupport, CompatibilityDataVersion, BaselineTarget, BaselineTargetResult, BrowserTarget, BrowserTargetResult, FeatureStandardStatus, WebFeature, WebFeatureCatalog, WebFeatureDetails } from '../types';
 import { ErrorHandler, ErrorContext } from '../core/errorHandler';
-import features  from 'web-features';
+import { BASELINE_CORE_BROWSERS, BASELINE_HIGH_MONTHS, BROWSERSLIST_AGENT_TO_BCD, compareBrowserVersions } from '../core/browserVersions';
 import bcd from '@mdn/browser-compat-data';
-// Remove compute-baseline for now - use direct BCD analysis
+import browserslist from 'browserslist';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// web-features is an ES module, which a CommonJS module can only load with require()
+// where the bundler or Node.js runtime supports it
+const features: typeof import('web-features', { with: { 'resolution-mode': 'import' } }).default = require('web-features').default;
+
+/**
+ * The web-features version, injected by webpack when bundling because the
+ * package does not export its package.json
+ */
+declare const WEB_FEATURES_VERSION: string | undefined;
+
+interface UsageShareEntry {
+    browser?: string;
+    version: string;
+    share: number;
+}
+
+/**
+ * Global objects whose members BCD lists under the interface they implement
+ */
+const GLOBAL_INSTANCE_INTERFACES: { [global: string]: string } = {
+    document: 'Document',
+    navigator: 'Navigator',
+    window: 'Window',
+    location: 'Location',
+    history: 'History',
+    screen: 'Screen',
+    localStorage: 'Storage',
+    sessionStorage: 'Storage'
+};
 
 export class CompatibilityDataService {
-    private webFeaturesData = features;
+    private webFeaturesData: typeof features = features;
+    private bcdData: typeof bcd = bcd;
+    private webFeatureCatalog: WebFeatureCatalog | null = null;
+    private dataVersion: CompatibilityDataVersion = CompatibilityDataService.getBundledDataVersion();
     private bcdCache: Map<string, BaselineStatus> = new Map();
+    private webFeatureStatusCache: Map<string, BaselineStatus> = new Map();
+    private compatFeatureIndex: Map<string, string> = new Map();
+    private browserTargets: BrowserTarget[] = [];
+    private coreBrowsers: string[] = BASELINE_CORE_BROWSERS;
+    private supportThreshold: number = 90;
+    private baselineTarget: BaselineTarget | null = null;
+    private usageShare: UsageShareEntry[] | null = null;
+    private audienceCache: Map<string, number | null> = new Map();
     private isInitialized: boolean = false;
     private errorHandler: ErrorHandler;
 
@@ -22,7 +65,8 @@ export class CompatibilityDataService {
         try {
             console.log('Initializing real web-features data...');
             const featureCount = Object.keys(this.webFeaturesData).length;
-            console.log(`Loaded ${featureCount} real web features`);
+            this.buildCompatFeatureIndex();
+            console.log(`Loaded ${featureCount} real web features (${this.compatFeatureIndex.size} BCD keys indexed)`);
             this.isInitialized = true;
         } catch (error) {
             console.error('Failed to initialize web-features:', error);
@@ -32,12 +76,131 @@ export class CompatibilityDataService {
         }
     }
 
+    /**
+     * Replace the active compatibility data, e.g. with a local snapshot.
+     * Passing null for either source keeps the bundled package data.
+     */
+    loadData(
+        webFeaturesData: typeof features | null,
+        bcdData: typeof bcd | null,
+        version: CompatibilityDataVersion,
+        catalog: WebFeatureCatalog | null = null
+    ): void {
+        this.webFeaturesData = webFeaturesData || features;
+        this.bcdData = bcdData || bcd;
+        this.webFeatureCatalog = catalog;
+        this.dataVersion = version;
+        this.clearCache();
+        this.buildCompatFeatureIndex();
+        console.log(`Loaded ${Object.keys(this.webFeaturesData).length} web features from ${version.source} data`);
+    }
+
+    /**
+     * Switch back to the data bundled with the extension
+     */
+    useBundledData(): void {
+        this.loadData(null, null, CompatibilityDataService.getBundledDataVersion());
+    }
+
+    /**
+     * Get the source and versions of the active compatibility data
+     */
+    getDataVersion(): CompatibilityDataVersion {
+        return this.dataVersion;
+    }
+
+    static getBundledDataVersion(): CompatibilityDataVersion {
+        return {
+            source: 'bundled',
+            webFeatures: CompatibilityDataService.getWebFeaturesVersion(),
+            bcd: bcd.__meta.version
+        };
+    }
+
+    /**
+     * Unbundled builds, such as the tests, read the version from the installed
+     * package instead
+     */
+    private static getWebFeaturesVersion(): string {
+        if (typeof WEB_FEATURES_VERSION !== 'undefined') {
+            return WEB_FEATURES_VERSION;
+        }
+
+        try {
+            const packagePath = path.join(path.dirname(require.resolve('web-features')), 'package.json');
+            return JSON.parse(fs.readFileSync(packagePath, 'utf8')).version;
+        } catch (error) {
+            return 'unknown';
+        }
+    }
+
+    /**
+     * Index every web-features compat_features entry so BCD keys emitted by the
+     * analyzers resolve to the web feature they belong to
+     */
+    private buildCompatFeatureIndex(): void {
+        this.compatFeatureIndex.clear();
+
+        for (const [id, feature] of Object.entries(this.webFeaturesData)) {
+            const compatFeatures: string[] = (feature as any).compat_features || [];
+            for (const bcdKey of compatFeatures) {
+                if (!this.compatFeatureIndex.has(bcdKey)) {
+                    this.compatFeatureIndex.set(bcdKey, id);
+                }
+            }
+        }
+    }
+
+    /**
+     * Resolve a web-features ID or BCD key to its web-features ID
+     */
+    getWebFeatureId(featureId: string): string | null {
+        if (featureId in this.webFeaturesData) {
+            return featureId;
+        }
+
+        return this.compatFeatureIndex.get(featureId) || null;
+    }
+
+    /**
+     * Get the IDs of the groups a web feature belongs to, if the data has any
+     */
+    getFeatureGroups(featureId: string): string[] {
+        return this.toIdList((this.webFeaturesData[featureId] as any)?.group);
+    }
+
+    /**
+     * Get the IDs of the snapshots (e.g. "ecmascript-2023") a web feature belongs to
+     */
+    getFeatureSnapshots(featureId: string): string[] {
+        return this.toIdList((this.webFeaturesData[featureId] as any)?.snapshot);
+    }
+
+    /**
+     * Get a group's display name and parent. Groups without a definition in
+     * the loaded data are named after their ID.
+     */
+    getGroupInfo(groupId: string): { name: string; parent?: string } {
+        return this.webFeatureCatalog?.groups[groupId] || { name: groupId };
+    }
+
+    getSnapshotName(snapshotId: string): string {
+        return this.webFeatureCatalog?.snapshots[snapshotId]?.name || snapshotId;
+    }
+
+    private toIdList(value: unknown): string[] {
+        if (typeof value === 'string') {
+            return [value];
+        }
+        return Array.isArray(value) ? value.filter((id): id is string => typeof id === 'string') : [];
+    }
+
     /**
      * Get BCD data by key path
      */
     getBCDData(bcdKey: string): any {
         const parts = bcdKey.split('.');
-        let current: any = bcd;
+        let current: any = this.bcdData;
         
         for (const part of parts) {
             if (current && typeof current === 'object' && part in current) {
@@ -51,7 +214,10 @@ export class CompatibilityDataService {
     }
 
     /**
-     * Convert BCD data to our BaselineStatus format
+     * Convert BCD data to our BaselineStatus format using the Baseline algorithm:
+     * a feature is newly available once every core browser has shipped it, dated
+     * by the release of the last one, and widely available 30 months later.
+     * Configuring extra core browsers makes this stricter than official Baseline.
      */
     private convertBCDToBaselineStatus(bcdData: any): BaselineStatus {
         if (!bcdData || !bcdData.support) {
@@ -61,46 +227,146 @@ export class CompatibilityDataService {
             };
         }
 
-        const support = bcdData.support;
-        const majorBrowsers = ['chrome', 'firefox', 'safari', 'edge'];
-        
-        let recentVersionCount = 0;
-        const supportData: any = {};
-        const currentYear = new Date().getFullYear();
-        
-        for (const browser of majorBrowsers) {
-            if (support[browser]) {
-                const browserSupport = Array.isArray(support[browser]) ? support[browser][0] : support[browser];
-                if (browserSupport.version_added && browserSupport.version_added !== false) {
-                    supportData[browser] = { version_added: browserSupport.version_added };
-                    
-                    // Check if it's a recent version (last 3 years for modern features)
-                    const version = parseInt(browserSupport.version_added);
-                    if (browser === 'chrome' && version >= 88) recentVersionCount++; // Chrome 88+ (2021+)
-                    else if (browser === 'firefox' && version >= 85) recentVersionCount++; // Firefox 85+ (2021+)
-                    else if (browser === 'safari' && version >= 14) recentVersionCount++; // Safari 14+ (2020+)
-                    else if (browser === 'edge' && version >= 88) recentVersionCount++; // Edge 88+ (2021+)
-                }
+        const supportData: BaselineStatus['support'] = {};
+        let lowDate: string | undefined;
+        let missingSupport = false;
+
+        for (const browser of this.coreBrowsers) {
+            const statement = this.getBaselineSupportStatement(bcdData.support[browser]);
+            const releaseDate = statement ? this.getReleaseDate(browser, statement.version_added) : null;
+
+            supportData[browser] = this.resolveBrowserSupport(bcdData.support[browser]) || { version_added: false };
+            if (!statement || !releaseDate) {
+                missingSupport = true;
+                continue;
+            }
+
+            if (!lowDate || releaseDate > lowDate) {
+                lowDate = releaseDate;
             }
         }
 
-        let status: 'widely_available' | 'newly_available' | 'limited_availability';
-        const totalSupported = Object.keys(supportData).length;
-        
-        if (totalSupported >= 4 && recentVersionCount === 0) {
-            status = 'widely_available'; // Old, stable features
-        } else if (totalSupported >= 3 && recentVersionCount <= 2) {
-            status = 'newly_available'; // Moderately new features
-        } else {
-            status = 'limited_availability'; // Very new or limited features
+        if (missingSupport || !lowDate) {
+            return {
+                status: 'limited_availability',
+                support: supportData
+            };
         }
 
+        const highDate = this.addMonths(lowDate, BASELINE_HIGH_MONTHS);
+        const today = new Date().toISOString().slice(0, 10);
+
         return {
-            status,
+            status: highDate <= today ? 'widely_available' : 'newly_available',
+            baseline_date: lowDate,
+            low_date: lowDate,
+            high_date: highDate,
             support: supportData
         };
     }
 
+    /**
+     * Pick the first support statement that counts towards Baseline: one that
+     * counts as support and names the version that shipped it
+     */
+    private getBaselineSupportStatement(browserSupport: any): { version_added: string } | null {
+        const statements = Array.isArray(browserSupport) ? browserSupport : [browserSupport];
+
+        for (const statement of statements) {
+            if (statement && typeof statement.version_added === 'string' && this.isUnqualifiedSupport(statement)) {
+                return statement;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Reduce a browser's BCD support statements to one entry: the first statement
+     * that counts as support, otherwise the first one with its caveats kept
+     */
+    private resolveBrowserSupport(browserSupport: any): BrowserSupport | null {
+        const statements = (Array.isArray(browserSupport) ? browserSupport : [browserSupport]).filter(Boolean);
+        if (statements.length === 0) {
+            return null;
+        }
+
+        const toSupport = (statement: any): BrowserSupport => {
+            const support: BrowserSupport = { version_added: statement.version_added || false };
+            for (const key of ['version_removed', 'partial_implementation', 'prefix', 'alternative_name', 'flags'] as const) {
+                if (statement[key]) {
+                    (support as any)[key] = statement[key];
+                }
+            }
+            if (statement.notes) {
+                support.notes = Array.isArray(statement.notes) ? statement.notes.join(' ') : statement.notes;
+            }
+            return support;
+        };
+
+        const supported = statements.map(toSupport).find(support => this.isUnqualifiedSupport(support));
+        return supported || toSupport(statements.find(statement => statement.version_added) || statements[0]);
+    }
+
+    /**
+     * Whether a support entry counts as support. Prefixed, renamed, flagged,
+     * removed and partial implementations do not, as in Baseline, so browser
+     * targets, supported audience and Baseline status agree.
+     */
+    isUnqualifiedSupport(support: BrowserSupport): boolean {
+        return (support.version_added === true || (typeof support.version_added === 'string' && support.version_added !== 'preview')) &&
+            !support.prefix &&
+            !support.alternative_name &&
+            !(support.flags && support.flags.length > 0) &&
+            !support.version_removed &&
+            !support.partial_implementation;
+    }
+
+    /**
+     * Describe why a support entry does not count as support
+     */
+    describeSupportCaveat(support: BrowserSupport): string | undefined {
+        const since = typeof support.version_added === 'string' ? ` since ${support.version_added}` : '';
+        const caveats: string[] = [];
+
+        if (support.prefix) {
+            caveats.push(`only with the ${support.prefix} prefix${since}`);
+        }
+        if (support.alternative_name) {
+            caveats.push(`only as ${support.alternative_name}${since}`);
+        }
+        if (support.flags && support.flags.length > 0) {
+            const flag = support.flags[0];
+            caveats.push(`only behind the ${flag.name} ${flag.type === 'preference' ? 'preference' : 'flag'}${since}`);
+        }
+        if (support.version_removed) {
+            caveats.push(typeof support.version_removed === 'string' ? `removed in ${support.version_removed}` : 'removed');
+        }
+        if (support.partial_implementation) {
+            caveats.push(`only a partial implementation${since}`);
+        }
+
+        return caveats.length > 0 ? caveats.join(', ') : undefined;
+    }
+
+    /**
+     * Look up the release date of a browser version in BCD's browser data.
+     * Ranged versions such as "≤79" use the date of their upper bound.
+     */
+    private getReleaseDate(browser: string, version: string): string | null {
+        const releases = (this.bcdData.browsers as any)[browser]?.releases;
+        const release = releases?.[version.replace('≤', '')];
+        return release?.release_date || null;
+    }
+
+    private addMonths(date: string, months: number): string {
+        const [year, month, day] = date.split('-').map(part => parseInt(part, 10));
+        // Clamp to the end of the target month, e.g. Aug 31 + 6 months is Feb 28
+        const lastDayOfMonth = new Date(Date.UTC(year, month + months, 0)).getUTCDate();
+        const result = new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDayOfMonth)));
+        return result.toISOString().slice(0, 10);
+    }
+
     /**
      * Convert web-features status to our BaselineStatus format
      */
@@ -122,12 +388,18 @@ export class CompatibilityDataService {
             baselineStatus = 'limited_availability';
         }
 
+        // web-features lists support as plain version strings per browser
+        const support: BaselineStatus['support'] = {};
+        for (const [browser, version] of Object.entries(status.support || {})) {
+            support[browser] = { version_added: version as string };
+        }
+
         return {
             status: baselineStatus,
             baseline_date: status.baseline_low_date,
             low_date: status.baseline_low_date,
             high_date: status.baseline_high_date,
-            support: status.support || {}
+            support
         };
     }
 
@@ -138,18 +410,17 @@ export class CompatibilityDataService {
         }
 
         // Check cache first
-        if (this.bcdCache.has(featureId)) {
-            return this.bcdCache.get(featureId)!;
+        if (this.webFeatureStatusCache.has(featureId)) {
+            return this.webFeatureStatusCache.get(featureId)!;
         }
 
         try {
-            // Use BCD data directly
-            console.log(`Looking up feature ID: ${featureId}`);
-            const feature = this.webFeaturesData[featureId];
-            console.log(`Feature result for ${featureId}:`, feature);
+            // BCD keys resolve to the official status of the web feature they belong to
+            const webFeatureId = this.getWebFeatureId(featureId);
+            const feature = webFeatureId ? this.webFeaturesData[webFeatureId] : undefined;
             if (feature && feature.status) {
                 const baselineStatus = this.convertWebFeatureStatus(feature.status);
-                this.bcdCache.set(featureId, baselineStatus);
+                this.webFeatureStatusCache.set(featureId, baselineStatus);
                 return baselineStatus;
             }
         } catch (error) {
@@ -159,31 +430,78 @@ export class CompatibilityDataService {
         return null;
     }
 
+    /**
+     * Fuzzy search web features by ID, name and description, best matches
+     * first. An empty query returns every feature sorted by name.
+     */
     searchFeatures(query: string): WebFeature[] {
         if (!this.isInitialized) {
             return [];
         }
 
-        const results: WebFeature[] = [];
-        const queryLower = query.toLowerCase();
+        const matches: { feature: WebFeature; score: number }[] = [];
+        const queryLower = query.trim().toLowerCase();
 
         for (const [id, feature] of Object.entries(this.webFeaturesData)) {
             const featureData = feature as any;
-            if (
-                id.toLowerCase().includes(queryLower) ||
-                featureData.name?.toLowerCase().includes(queryLower) ||
-                (featureData.description && featureData.description.toLowerCase().includes(queryLower))
-            ) {
-                results.push({
-                    id,
-                    name: featureData.name || id,
-                    description: featureData.description,
-                    baseline: this.convertWebFeatureStatus(featureData.status)
+            const name: string = featureData.name || id;
+            const score = this.scoreSearchMatch(queryLower, id, name, featureData.description);
+            if (score > 0) {
+                matches.push({
+                    feature: {
+                        id,
+                        name,
+                        description: featureData.description,
+                        spec_url: Array.isArray(featureData.spec) ? featureData.spec[0] : featureData.spec,
+                        compat_features: featureData.compat_features,
+                        baseline: this.convertWebFeatureStatus(featureData.status)
+                    },
+                    score
                 });
             }
         }
 
-        return results;
+        return matches
+            .sort((a, b) => b.score - a.score || a.feature.name.localeCompare(b.feature.name))
+            .map(match => match.feature);
+    }
+
+    /**
+     * Score how well a feature matches a lowercase query: exact and prefix
+     * matches on the ID or name rank above substring matches, which rank
+     * above description matches and finally fuzzy (in-order character) matches
+     */
+    private scoreSearchMatch(query: string, id: string, name: string, description?: string): number {
+        if (!query) {
+            return 1;
+        }
+
+        const candidates = [id.toLowerCase(), name.toLowerCase()];
+        if (candidates.includes(query)) {
+            return 100;
+        }
+        if (candidates.some(candidate => candidate.startsWith(query))) {
+            return 80;
+        }
+        if (candidates.some(candidate => candidate.includes(query))) {
+            return 60;
+        }
+        if (description && description.toLowerCase().includes(query)) {
+            return 30;
+        }
+
+        const characters = query.replace(/[\s-]+/g, '');
+        const isSubsequence = (candidate: string): boolean => {
+            let position = 0;
+            for (const character of candidate) {
+                if (character === characters[position]) {
+                    position++;
+                }
+            }
+            return position === characters.length;
+        };
+
+        return characters && candidates.some(isSubsequence) ? 10 : 0;
     }
 
     getFeatureDetails(featureId: string): WebFeatureDetails | null {
@@ -191,15 +509,16 @@ export class CompatibilityDataService {
             return null;
         }
 
-        const feature = this.webFeaturesData[featureId] as any;
+        const webFeatureId = this.getWebFeatureId(featureId);
+        const feature = webFeatureId ? this.webFeaturesData[webFeatureId] as any : undefined;
         if (!feature) {
             return null;
         }
 
         return {
-            name: feature.name || featureId,
+            name: feature.name || webFeatureId,
             description: feature.description || 'No description available',
-            mdn_url: feature.mdn_url,
+            mdn_url: feature.mdn_url || this.getBCDData(featureId)?.mdn_url,
             spec_url: feature.spec,
             baseline: this.convertWebFeatureStatus(feature.status)
         };
@@ -223,6 +542,42 @@ export class CompatibilityDataService {
         return baseKey;
     }
 
+    /**
+     * Get whether a BCD feature is deprecated, experimental or off the standards track
+     */
+    getStandardStatus(bcdKey: string): FeatureStandardStatus | null {
+        const status = this.getBCDData(bcdKey)?.status;
+        if (!status) {
+            return null;
+        }
+
+        return {
+            deprecated: status.deprecated === true,
+            standardTrack: status.standard_track !== false,
+            experimental: status.experimental === true
+        };
+    }
+
+    /**
+     * Describe why a feature belongs in the deprecated category, e.g.
+     * "deprecated" or "deprecated and non-standard"
+     */
+    describeStandardStatus(status: FeatureStandardStatus | undefined): string | undefined {
+        if (!status) {
+            return undefined;
+        }
+
+        const descriptions: string[] = [];
+        if (status.deprecated) {
+            descriptions.push('deprecated');
+        }
+        if (!status.standardTrack) {
+            descriptions.push('non-standard');
+        }
+
+        return descriptions.length > 0 ? descriptions.join(' and ') : undefined;
+    }
+
     getBCDStatus(bcdKey: string): BaselineStatus | null {
         if (!this.isInitialized) {
             return null;
@@ -246,33 +601,18 @@ export class CompatibilityDataService {
         return null;
     }
 
-    private convertComputeBaselineStatus(status: any): BaselineStatus {
-        let baselineStatus: 'widely_available' | 'newly_available' | 'limited_availability';
-        
-        if (status.baseline === 'high') {
-            baselineStatus = 'widely_available';
-        } else if (status.baseline === 'low') {
-            baselineStatus = 'newly_available';
-        } else {
-            baselineStatus = 'limited_availability';
-        }
-
-        return {
-            status: baselineStatus,
-            baseline_date: status.baseline_low_date,
-            low_date: status.baseline_low_date,
-            high_date: status.baseline_high_date,
-            support: status.support || {}
-        };
-    }
-
     /**
      * Map feature name to BCD key for JavaScript APIs
      */
     mapJSAPIToBCD(apiName: string): string {
         // Try different possible BCD paths and return the first that exists
+        // Instances exposed as globals are documented under their interface, e.g. document -> Document
+        const [object, ...members] = apiName.split('.');
+        const instanceInterface = GLOBAL_INSTANCE_INTERFACES[object];
+
         const possibleKeys = [
             `api.${apiName}`,
+            ...(instanceInterface && members.length > 0 ? [`api.${[instanceInterface, ...members].join('.')}`] : []),
             `javascript.builtins.${apiName}`,
             `api.Window.${apiName}`,
             `api.${apiName}.${apiName}` // For cases like fetch.fetch
@@ -315,9 +655,293 @@ export class CompatibilityDataService {
         return baseKey;
     }
 
+    /**
+     * Set the browser targets that detected features are checked against
+     */
+    setBrowserTargets(targets: BrowserTarget[]): void {
+        this.browserTargets = targets;
+    }
+
+    getBrowserTargets(): BrowserTarget[] {
+        return this.browserTargets;
+    }
+
+    /**
+     * Check a feature against every configured browser target
+     */
+    evaluateBrowserTargets(featureId: string, baselineStatus: BaselineStatus): BrowserTargetResult[] {
+        return this.browserTargets.map(target => {
+            const support = this.getBrowserSupport(featureId, baselineStatus, target.browser);
+            const versionAdded = this.getVersionAdded(featureId, baselineStatus, target.browser);
+            const result: BrowserTargetResult = {
+                browser: target.browser,
+                targetVersion: target.version,
+                versionAdded,
+                supported: this.isVersionSupported(versionAdded, target.version)
+            };
+
+            const caveat = support ? this.describeSupportCaveat(support) : undefined;
+            if (caveat) {
+                result.caveat = caveat;
+            }
+            return result;
+        });
+    }
+
+    /**
+     * Find the vendor prefixes a feature still needs, mapped to the browsers
+     * that need them: target browsers, or the current core browsers when no
+     * targets are configured, that support it only with a prefix
+     */
+    getRequiredPrefixes(featureId: string): Map<string, string[]> {
+        const requiredPrefixes = new Map<string, string[]>();
+        const support = this.getBCDData(featureId)?.support;
+        if (!support) {
+            return requiredPrefixes;
+        }
+
+        const targets = this.browserTargets.length > 0
+            ? this.browserTargets
+            : this.coreBrowsers.map(browser => ({ browser, version: '' }));
+
+        for (const target of targets) {
+            const statements: any[] = (Array.isArray(support[target.browser]) ? support[target.browser] : [support[target.browser]])
+                .filter((statement: any) => statement && !statement.flags && this.isStatementInVersion(statement, target.version));
+            if (statements.length === 0 || statements.some(statement => !statement.prefix && !statement.alternative_name)) {
+                continue;
+            }
+
+            const prefixed = statements.find(statement => statement.prefix);
+            if (prefixed) {
+                requiredPrefixes.set(prefixed.prefix, [...(requiredPrefixes.get(prefixed.prefix) || []), target.browser]);
+            }
+        }
+
+        return requiredPrefixes;
+    }
+
+    /**
+     * Whether a BCD support statement applies to a browser version, or to the
+     * current release when no version is given
+     */
+    private isStatementInVersion(statement: any, version: string): boolean {
+        const added = statement.version_added;
+        if (added !== true && (typeof added !== 'string' || added === 'preview')) {
+            return false;
+        }
+        if (!version) {
+            return !statement.version_removed;
+        }
+
+        const removed = statement.version_removed;
+        return (added === true || compareBrowserVersions(added.replace('≤', ''), version) <= 0) &&
+            !(removed === true || (typeof removed === 'string' && compareBrowserVersions(removed.replace('≤', ''), version) <= 0));
+    }
+
+    /**
+     * Set the browsers that status computed from BCD data requires, and that
+     * hovers and reports show. Defaults to the Baseline core browser set.
+     */
+    setCoreBrowsers(browsers: string[]): void {
+        const coreBrowsers = browsers.length > 0 ? browsers : BASELINE_CORE_BROWSERS;
+        if (coreBrowsers.join(',') !== this.coreBrowsers.join(',')) {
+            this.coreBrowsers = coreBrowsers;
+            this.clearCache();
+        }
+    }
+
+    getCoreBrowsers(): string[] {
+        return this.coreBrowsers;
+    }
+
+    /**
+     * Set the Baseline target policy detected features are checked against
+     */
+    setBaselineTarget(target: BaselineTarget | null): void {
+        this.baselineTarget = target;
+    }
+
+    getBaselineTarget(): BaselineTarget | null {
+        return this.baselineTarget;
+    }
+
+    /**
+     * Check a feature's Baseline dates against the Baseline target. Year targets
+     * compare the newly available date, date targets the widely available date.
+     */
+    evaluateBaselineTarget(baselineStatus: BaselineStatus): BaselineTargetResult | undefined {
+        const target = this.baselineTarget;
+        if (!target) {
+            return undefined;
+        }
+
+        // web-features marks approximate dates as "≤2020-01-15"
+        const label = this.getBaselineTargetLabel(target);
+        if (target.mode === 'year') {
+            const date = baselineStatus.low_date?.replace('≤', '');
+            return {
+                target,
+                label,
+                meetsTarget: !!date && parseInt(date.slice(0, 4), 10) <= target.year,
+                date
+            };
+        }
+
+        const date = baselineStatus.high_date?.replace('≤', '');
+        const asOf = target.date || new Date().toISOString().slice(0, 10);
+        return {
+            target,
+            label,
+            meetsTarget: !!date && date <= asOf,
+            date
+        };
+    }
+
+    /**
+     * Describe a Baseline target, e.g. "Baseline 2022"
+     */
+    getBaselineTargetLabel(target: BaselineTarget): string {
+        if (target.mode === 'year') {
+            return `Baseline ${target.year}`;
+        }
+
+        return target.date ? `Baseline widely available on ${target.date}` : 'Baseline widely available';
+    }
+
+    /**
+     * Set the minimum share of global users a feature must reach to be considered safe
+     */
+    setSupportThreshold(threshold: number): void {
+        this.supportThreshold = threshold;
+    }
+
+    getSupportThreshold(): number {
+        return this.supportThreshold;
+    }
+
+    /**
+     * Compare a feature's supported audience with the support threshold
+     */
+    evaluateAudienceSupport(featureId: string, baselineStatus: BaselineStatus): AudienceSupport | undefined {
+        const percentage = this.getSupportedAudience(featureId, baselineStatus);
+        if (percentage === null) {
+            return undefined;
+        }
+
+        return {
+            percentage,
+            threshold: this.supportThreshold,
+            meetsThreshold: percentage >= this.supportThreshold
+        };
+    }
+
+    /**
+     * Calculate the percentage of global browser usage that supports a feature.
+     * Usage comes from the caniuse snapshot bundled with browserslist; browsers
+     * without BCD data count towards the total but never as supported.
+     */
+    getSupportedAudience(featureId: string, baselineStatus: BaselineStatus): number | null {
+        if (this.audienceCache.has(featureId)) {
+            return this.audienceCache.get(featureId)!;
+        }
+
+        const versionAddedByBrowser = new Map<string, string | boolean | null>();
+        let totalShare = 0;
+        let supportedShare = 0;
+        let hasSupportData = false;
+
+        for (const entry of this.getUsageShare()) {
+            totalShare += entry.share;
+            if (!entry.browser) {
+                continue;
+            }
+
+            if (!versionAddedByBrowser.has(entry.browser)) {
+                const versionAdded = this.getVersionAdded(featureId, baselineStatus, entry.browser);
+                versionAddedByBrowser.set(entry.browser, versionAdded);
+                hasSupportData = hasSupportData || versionAdded !== null;
+            }
+
+            if (/^\d/.test(entry.version) && this.isVersionSupported(versionAddedByBrowser.get(entry.browser)!, entry.version)) {
+                supportedShare += entry.share;
+            }
+        }
+
+        const percentage = hasSupportData && totalShare > 0
+            ? Math.round((supportedShare / totalShare) * 1000) / 10
+            : null;
+
+        this.audienceCache.set(featureId, percentage);
+        return percentage;
+    }
+
+    private getUsageShare(): UsageShareEntry[] {
+        if (!this.usageShare) {
+            this.usageShare = Object.entries(browserslist.usage.global || {}).map(([entry, share]) => {
+                const [agent, versionRange] = entry.split(' ');
+                return {
+                    browser: BROWSERSLIST_AGENT_TO_BCD[agent],
+                    // Ranges like "15.0-15.1" resolve to their lower bound
+                    version: (versionRange || '').split('-')[0],
+                    share: share || 0
+                };
+            });
+        }
+
+        return this.usageShare;
+    }
+
+    /**
+     * Get the display name of a BCD browser identifier
+     */
+    getBrowserName(browser: string): string {
+        const browserData = (this.bcdData.browsers as any)[browser];
+        return browserData?.name || browser;
+    }
+
+    /**
+     * Get a browser's support entry for a feature, preferring raw BCD data
+     * so targets outside the major desktop browsers can be checked too
+     */
+    getBrowserSupport(featureId: string, baselineStatus: BaselineStatus, browser: string): BrowserSupport | null {
+        const bcdData = this.getBCDData(featureId);
+        if (bcdData && bcdData.support && bcdData.support[browser]) {
+            return this.resolveBrowserSupport(bcdData.support[browser]);
+        }
+
+        return baselineStatus.support[browser] || null;
+    }
+
+    /**
+     * Find the version a browser added a feature in. Support that does not
+     * count, such as prefixed or flagged implementations, is reported as false.
+     */
+    private getVersionAdded(featureId: string, baselineStatus: BaselineStatus, browser: string): string | boolean | null {
+        const support = this.getBrowserSupport(featureId, baselineStatus, browser);
+        if (!support) {
+            return null;
+        }
+
+        return this.isUnqualifiedSupport(support) ? support.version_added : false;
+    }
+
+    private isVersionSupported(versionAdded: string | boolean | null, targetVersion: string): boolean {
+        if (versionAdded === true) {
+            return true;
+        }
+        if (typeof versionAdded !== 'string' || versionAdded === 'preview') {
+            return false;
+        }
+
+        // Ranged versions such as "≤79" are treated as their upper bound
+        return compareBrowserVersions(versionAdded.replace('≤', ''), targetVersion) <= 0;
+    }
+
     // Utility methods for cache management
     clearCache(): void {
         this.bcdCache.clear();
+        this.webFeatureStatusCache.clear();
+        this.audienceCache.clear();
     }
 
     getCacheStats(): { bcdCache: number; totalFeatures: number } {
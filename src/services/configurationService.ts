@@ -1,6 +1,9 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { ExtensionConfig, TeamConfig } from '../types';
+import browserslist from 'browserslist';
+import bcd from '@mdn/browser-compat-data';
+import { BaselineTarget, BrowserTarget, ExtensionConfig, TeamConfig } from '../types';
+import { BASELINE_CORE_BROWSERS, BROWSERSLIST_AGENT_TO_BCD, compareBrowserVersions } from '../core/browserVersions';
 
 /**
  * Service for managing extension configuration including VS Code settings,
@@ -9,10 +12,17 @@ import { ExtensionConfig, TeamConfig } from '../types';
 export class ConfigurationService {
     private static readonly CONFIG_SECTION = 'baseline-lens';
     private static readonly TEAM_CONFIG_FILE = '.baseline-lens.json';
+    private static readonly BROWSER_SPEC_PATTERN = /^(chrome|firefox|safari|edge|ie|opera|ios|android)\s*(>=|>|<=|<|=)\s*(\d+(?:\.\d+)*)$/i;
+    private static readonly BROWSER_SPEC_ALIASES: { [name: string]: string } = {
+        ios: 'safari_ios',
+        android: 'webview_android'
+    };
+    private static readonly BASELINE_TARGET_PATTERN = /^(?:baseline\s+)?(?:(\d{4})|widely\s+available(?:\s+(?:on|as\s+of)\s+(\d{4}-\d{2}-\d{2}))?)$/i;
     
     private _config: ExtensionConfig | null = null;
     private _teamConfig: TeamConfig | null = null;
     private _configWatcher: vscode.FileSystemWatcher | null = null;
+    private _browserslistWatcher: vscode.FileSystemWatcher | null = null;
     private _onConfigChanged = new vscode.EventEmitter<ExtensionConfig>();
     
     public readonly onConfigChanged = this._onConfigChanged.event;
@@ -93,7 +103,7 @@ export class ConfigurationService {
     /**
      * Get diagnostic severity for a baseline status
      */
-    public getDiagnosticSeverity(baselineStatus: 'widely_available' | 'newly_available' | 'limited_availability'): vscode.DiagnosticSeverity | null {
+    public getDiagnosticSeverity(baselineStatus: keyof ExtensionConfig['baselineStatusMapping']): vscode.DiagnosticSeverity | null {
         const config = this.getConfiguration();
         const severity = config.baselineStatusMapping[baselineStatus];
         
@@ -111,6 +121,150 @@ export class ConfigurationService {
         }
     }
 
+    /**
+     * Get the browser targets defined by Browserslist queries and the custom
+     * browser matrix, keeping the oldest required version for each browser
+     */
+    public getBrowserTargets(): BrowserTarget[] {
+        const config = this.getConfiguration();
+        const targets = [
+            ...this.resolveBrowserslistQueries(this.getBrowserslistQueries()),
+            ...this.parseBrowserSpecs(config.customBrowserMatrix)
+        ];
+
+        const oldestByBrowser = new Map<string, BrowserTarget>();
+        for (const target of targets) {
+            const existing = oldestByBrowser.get(target.browser);
+            if (!existing || compareBrowserVersions(target.version, existing.version) < 0) {
+                oldestByBrowser.set(target.browser, target);
+            }
+        }
+
+        return Array.from(oldestByBrowser.values());
+    }
+
+    /**
+     * Get the Browserslist queries to resolve, preferring the setting over
+     * the project's .browserslistrc or package.json#browserslist
+     */
+    public getBrowserslistQueries(): string[] {
+        const config = this.getConfiguration();
+        if (config.browserslist.length > 0) {
+            return config.browserslist;
+        }
+
+        if (config.useBrowserslistConfig) {
+            return this.loadProjectBrowserslist();
+        }
+
+        return [];
+    }
+
+    /**
+     * Resolve Browserslist queries offline against the bundled caniuse data.
+     * Each browser is reduced to the oldest version the queries select.
+     */
+    public resolveBrowserslistQueries(queries: string[]): BrowserTarget[] {
+        if (queries.length === 0) {
+            return [];
+        }
+
+        let entries: string[];
+        try {
+            entries = browserslist(queries);
+        } catch (error) {
+            console.warn('Failed to resolve browserslist queries:', error);
+            return [];
+        }
+
+        const targets: BrowserTarget[] = [];
+        for (const entry of entries) {
+            const [agent, versionRange] = entry.split(' ');
+            const browser = BROWSERSLIST_AGENT_TO_BCD[agent];
+            // Ranges like "15.0-15.1" resolve to their lower bound; "TP" and "all" are skipped
+            const version = versionRange?.split('-')[0];
+
+            if (browser && version && /^\d/.test(version)) {
+                targets.push({ browser, version });
+            }
+        }
+
+        return targets;
+    }
+
+    /**
+     * Resolve browser specifications like "safari >= 15" into BCD browser targets,
+     * each holding the oldest version the specification selects. Invalid
+     * specifications and ones that select no known version are skipped.
+     */
+    public parseBrowserSpecs(specs: string[]): BrowserTarget[] {
+        const targets: BrowserTarget[] = [];
+
+        for (const spec of specs) {
+            const target = this.resolveBrowserSpec(spec);
+            if (target) {
+                targets.push(target);
+            }
+        }
+
+        return targets;
+    }
+
+    /**
+     * Resolve one browser specification to the oldest version it selects. With
+     * ">=" that is the version as written; ">", "<", "<=" and "=" are resolved
+     * through Browserslist, so "chrome > 100" is Chrome 101 and "chrome <= 100"
+     * is the oldest Chrome release.
+     */
+    private resolveBrowserSpec(spec: string): BrowserTarget | null {
+        const match = ConfigurationService.BROWSER_SPEC_PATTERN.exec(spec.trim());
+        if (!match) {
+            return null;
+        }
+
+        const name = match[1].toLowerCase();
+        const [, , operator, version] = match;
+        const browser = ConfigurationService.BROWSER_SPEC_ALIASES[name] || name;
+        if (operator === '>=') {
+            return { browser, version };
+        }
+
+        // Browserslist has no "=" operator; a bare version selects just that release
+        const query = operator === '=' ? `${name} ${version}` : `${name} ${operator} ${version}`;
+        let oldest: BrowserTarget | null = null;
+        for (const target of this.resolveBrowserslistQueries([query])) {
+            if (target.browser === browser && (!oldest || compareBrowserVersions(target.version, oldest.version) < 0)) {
+                oldest = target;
+            }
+        }
+
+        return oldest;
+    }
+
+    /**
+     * Get the Baseline target policy from configuration, or null when none is set
+     */
+    public getBaselineTarget(): BaselineTarget | null {
+        return this.parseBaselineTarget(this.getConfiguration().baselineTarget);
+    }
+
+    /**
+     * Parse a Baseline target such as "2022", "Baseline 2022", "widely available"
+     * or "widely available on 2024-06-01". Returns null for empty or invalid values.
+     */
+    public parseBaselineTarget(value: string | undefined): BaselineTarget | null {
+        const match = ConfigurationService.BASELINE_TARGET_PATTERN.exec((value || '').trim());
+        if (!match) {
+            return null;
+        }
+
+        if (match[1]) {
+            return { mode: 'year', year: parseInt(match[1], 10) };
+        }
+
+        return match[2] ? { mode: 'widely_available', date: match[2] } : { mode: 'widely_available' };
+    }
+
     /**
      * Check if file size is within limits
      */
@@ -182,6 +336,26 @@ export class ConfigurationService {
             }
         }
 
+        if (config.coreBrowsers !== undefined) {
+            for (const browser of config.coreBrowsers) {
+                if (!this.isKnownBrowser(browser)) {
+                    errors.push(`Unknown browser: ${browser}`);
+                }
+            }
+        }
+
+        if (config.browserslist !== undefined) {
+            for (const query of config.browserslist) {
+                if (!this.isValidBrowserslistQuery(query)) {
+                    errors.push(`Invalid browserslist query: ${query}`);
+                }
+            }
+        }
+
+        if (config.baselineTarget && !this.parseBaselineTarget(config.baselineTarget)) {
+            errors.push(`Invalid Baseline target: ${config.baselineTarget}`);
+        }
+
         return errors;
     }
 
@@ -193,6 +367,11 @@ export class ConfigurationService {
         const teamConfig: TeamConfig = {
             supportThreshold: config.supportThreshold,
             customBrowserMatrix: config.customBrowserMatrix.length > 0 ? config.customBrowserMatrix : undefined,
+            coreBrowsers: config.coreBrowsers,
+            browserslist: config.browserslist.length > 0 ? config.browserslist : undefined,
+            useBrowserslistConfig: config.useBrowserslistConfig || undefined,
+            baselineTarget: config.baselineTarget || undefined,
+            dataSnapshotPath: config.dataSnapshotPath || undefined,
             excludePatterns: config.excludePatterns,
             baselineStatusMapping: config.baselineStatusMapping,
             enabledAnalyzers: config.enabledAnalyzers,
@@ -222,6 +401,21 @@ export class ConfigurationService {
             if (teamConfig.customBrowserMatrix !== undefined) {
                 await this.updateConfiguration('customBrowserMatrix', teamConfig.customBrowserMatrix);
             }
+            if (teamConfig.coreBrowsers !== undefined) {
+                await this.updateConfiguration('coreBrowsers', teamConfig.coreBrowsers);
+            }
+            if (teamConfig.browserslist !== undefined) {
+                await this.updateConfiguration('browserslist', teamConfig.browserslist);
+            }
+            if (teamConfig.useBrowserslistConfig !== undefined) {
+                await this.updateConfiguration('useBrowserslistConfig', teamConfig.useBrowserslistConfig);
+            }
+            if (teamConfig.baselineTarget !== undefined) {
+                await this.updateConfiguration('baselineTarget', teamConfig.baselineTarget);
+            }
+            if (teamConfig.dataSnapshotPath !== undefined) {
+                await this.updateConfiguration('dataSnapshotPath', teamConfig.dataSnapshotPath);
+            }
             if (teamConfig.excludePatterns !== undefined) {
                 await this.updateConfiguration('excludePatterns', teamConfig.excludePatterns);
             }
@@ -255,6 +449,9 @@ export class ConfigurationService {
         if (this._configWatcher) {
             this._configWatcher.dispose();
         }
+        if (this._browserslistWatcher) {
+            this._browserslistWatcher.dispose();
+        }
     }
 
     private async loadConfiguration(): Promise<void> {
@@ -315,8 +512,17 @@ export class ConfigurationService {
         config.showInlineIndicators = vsCodeConfig.get('showInlineIndicators', defaultConfig.showInlineIndicators);
         config.diagnosticSeverity = vsCodeConfig.get('diagnosticSeverity', defaultConfig.diagnosticSeverity);
         config.customBrowserMatrix = vsCodeConfig.get('customBrowserMatrix', defaultConfig.customBrowserMatrix);
+        config.coreBrowsers = vsCodeConfig.get('coreBrowsers', defaultConfig.coreBrowsers);
+        config.browserslist = vsCodeConfig.get('browserslist', defaultConfig.browserslist);
+        config.useBrowserslistConfig = vsCodeConfig.get('useBrowserslistConfig', defaultConfig.useBrowserslistConfig);
+        config.baselineTarget = vsCodeConfig.get('baselineTarget', defaultConfig.baselineTarget);
+        config.dataSnapshotPath = vsCodeConfig.get('dataSnapshotPath', defaultConfig.dataSnapshotPath);
         config.excludePatterns = vsCodeConfig.get('excludePatterns', defaultConfig.excludePatterns);
-        config.baselineStatusMapping = vsCodeConfig.get('baselineStatusMapping', defaultConfig.baselineStatusMapping);
+        // Settings saved before a status was added to the mapping keep the default for it
+        config.baselineStatusMapping = {
+            ...defaultConfig.baselineStatusMapping,
+            ...vsCodeConfig.get('baselineStatusMapping', defaultConfig.baselineStatusMapping)
+        };
         config.enabledAnalyzers = vsCodeConfig.get('enabledAnalyzers', defaultConfig.enabledAnalyzers);
         config.maxFileSize = vsCodeConfig.get('maxFileSize', defaultConfig.maxFileSize);
         config.analysisTimeout = vsCodeConfig.get('analysisTimeout', defaultConfig.analysisTimeout);
@@ -333,6 +539,21 @@ export class ConfigurationService {
             if (teamConfig.customBrowserMatrix !== undefined) {
                 config.customBrowserMatrix = teamConfig.customBrowserMatrix;
             }
+            if (teamConfig.coreBrowsers !== undefined) {
+                config.coreBrowsers = teamConfig.coreBrowsers;
+            }
+            if (teamConfig.browserslist !== undefined) {
+                config.browserslist = teamConfig.browserslist;
+            }
+            if (teamConfig.useBrowserslistConfig !== undefined) {
+                config.useBrowserslistConfig = teamConfig.useBrowserslistConfig;
+            }
+            if (teamConfig.baselineTarget !== undefined) {
+                config.baselineTarget = teamConfig.baselineTarget;
+            }
+            if (teamConfig.dataSnapshotPath !== undefined) {
+                config.dataSnapshotPath = teamConfig.dataSnapshotPath;
+            }
             if (teamConfig.excludePatterns !== undefined) {
                 config.excludePatterns = teamConfig.excludePatterns;
             }
@@ -355,17 +576,24 @@ export class ConfigurationService {
 
     private getDefaultConfiguration(): ExtensionConfig {
         return {
-            enabledFileTypes: ['css', 'scss', 'less', 'javascript', 'typescript', 'javascriptreact', 'typescriptreact', 'html', 'vue', 'svelte'],
+            enabledFileTypes: ['css', 'scss', 'sass', 'less', 'stylus', 'javascript', 'typescript', 'javascriptreact', 'typescriptreact', 'html', 'vue', 'svelte'],
             supportThreshold: 90,
             showInlineIndicators: false,
             showDiagnostics: true,
             diagnosticSeverity: 'warning',
             customBrowserMatrix: [],
+            coreBrowsers: [...BASELINE_CORE_BROWSERS],
+            browserslist: [],
+            useBrowserslistConfig: false,
+            baselineTarget: '',
+            dataSnapshotPath: '',
             excludePatterns: ['**/node_modules/**', '**/dist/**', '**/build/**'],
             baselineStatusMapping: {
                 widely_available: 'info',
                 newly_available: 'warning',
-                limited_availability: 'error'
+                limited_availability: 'error',
+                deprecated: 'warning',
+                guarded: 'info'
             },
             enabledAnalyzers: {
                 css: true,
@@ -401,6 +629,46 @@ export class ConfigurationService {
             }
         }
 
+        if (teamConfig.coreBrowsers !== undefined) {
+            if (!Array.isArray(teamConfig.coreBrowsers)) {
+                errors.push('coreBrowsers must be an array');
+            } else {
+                for (const browser of teamConfig.coreBrowsers) {
+                    if (typeof browser !== 'string' || !this.isKnownBrowser(browser)) {
+                        errors.push(`Unknown browser: ${browser}`);
+                    }
+                }
+            }
+        }
+
+        if (teamConfig.browserslist !== undefined) {
+            if (!Array.isArray(teamConfig.browserslist)) {
+                errors.push('browserslist must be an array');
+            } else {
+                for (const query of teamConfig.browserslist) {
+                    if (typeof query !== 'string' || !this.isValidBrowserslistQuery(query)) {
+                        errors.push(`Invalid browserslist query: ${query}`);
+                    }
+                }
+            }
+        }
+
+        if (teamConfig.useBrowserslistConfig !== undefined && typeof teamConfig.useBrowserslistConfig !== 'boolean') {
+            errors.push('useBrowserslistConfig must be a boolean');
+        }
+
+        if (teamConfig.baselineTarget !== undefined) {
+            if (typeof teamConfig.baselineTarget !== 'string') {
+                errors.push('baselineTarget must be a string');
+            } else if (teamConfig.baselineTarget && !this.parseBaselineTarget(teamConfig.baselineTarget)) {
+                errors.push(`Invalid Baseline target: ${teamConfig.baselineTarget}`);
+            }
+        }
+
+        if (teamConfig.dataSnapshotPath !== undefined && typeof teamConfig.dataSnapshotPath !== 'string') {
+            errors.push('dataSnapshotPath must be a string');
+        }
+
         if (teamConfig.excludePatterns !== undefined) {
             if (!Array.isArray(teamConfig.excludePatterns)) {
                 errors.push('excludePatterns must be an array');
@@ -423,9 +691,35 @@ export class ConfigurationService {
     }
 
     private isValidBrowserSpec(spec: string): boolean {
-        // Basic validation for browser specifications like "chrome >= 90", "firefox >= 88"
-        const browserSpecRegex = /^(chrome|firefox|safari|edge|ie|opera|ios|android)\s*(>=|>|<=|<|=)\s*\d+(\.\d+)*$/i;
-        return browserSpecRegex.test(spec.trim());
+        // Specifications like "chrome >= 90" or "safari > 15" that select at least one known version
+        return this.resolveBrowserSpec(spec) !== null;
+    }
+
+    private isKnownBrowser(browser: string): boolean {
+        return browser in bcd.browsers;
+    }
+
+    private isValidBrowserslistQuery(query: string): boolean {
+        try {
+            browserslist(query);
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    private loadProjectBrowserslist(): string[] {
+        const workspaceFolders = vscode.workspace.workspaceFolders;
+        if (!workspaceFolders || workspaceFolders.length === 0) {
+            return [];
+        }
+
+        try {
+            return browserslist.loadConfig({ path: workspaceFolders[0].uri.fsPath }) || [];
+        } catch (error) {
+            console.warn('Failed to load project browserslist configuration:', error);
+            return [];
+        }
     }
 
     private initializeTeamConfigWatcher(): void {
@@ -442,6 +736,14 @@ export class ConfigurationService {
         this._configWatcher.onDidCreate(this.handleTeamConfigChange, this);
         this._configWatcher.onDidChange(this.handleTeamConfigChange, this);
         this._configWatcher.onDidDelete(this.handleTeamConfigChange, this);
+
+        // Project browserslist sources are re-read when useBrowserslistConfig is enabled
+        const browserslistPattern = new vscode.RelativePattern(workspaceFolders[0], '{.browserslistrc,package.json}');
+        this._browserslistWatcher = vscode.workspace.createFileSystemWatcher(browserslistPattern);
+
+        this._browserslistWatcher.onDidCreate(this.handleTeamConfigChange, this);
+        this._browserslistWatcher.onDidChange(this.handleTeamConfigChange, this);
+        this._browserslistWatcher.onDidDelete(this.handleTeamConfigChange, this);
     }
 
     private async handleConfigurationChange(event: vscode.ConfigurationChangeEvent): Promise<void> {
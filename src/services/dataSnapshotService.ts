@@ -0,0 +1,342 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CompatibilityDataService } from './compatibilityService';
+import { ConfigurationService } from './configurationService';
+import { CompatibilityDataVersion, WebFeatureCatalog } from '../types';
+import { ErrorHandler } from '../core/errorHandler';
+
+/**
+ * A JSON file from the snapshot directory, classified by its contents
+ */
+interface SnapshotFile {
+    name: string;
+    modified: number;
+    data: any;
+}
+
+/**
+ * Validated snapshot contents; null sources fall back to the bundled packages
+ */
+export interface LoadedSnapshot {
+    webFeatures: any | null;
+    bcd: any | null;
+    catalog: WebFeatureCatalog | null;
+    version: CompatibilityDataVersion;
+}
+
+/**
+ * Service that loads web-features and BCD data from a local snapshot directory
+ * instead of the packages bundled with the extension, and reloads it whenever
+ * the snapshot files or the configured directory change
+ */
+export class DataSnapshotService implements vscode.Disposable {
+    private static readonly RELOAD_DELAY = 500;
+    private static readonly MAX_REPORTED_ERRORS = 5;
+
+    private readonly compatibilityService: CompatibilityDataService;
+    private readonly configurationService: ConfigurationService;
+    private readonly errorHandler: ErrorHandler;
+    private readonly configChangeListener: vscode.Disposable;
+    private snapshotWatcher: vscode.FileSystemWatcher | null = null;
+    private reloadTimeout: NodeJS.Timeout | null = null;
+    private activePath = '';
+
+    private _onDidChangeData = new vscode.EventEmitter<CompatibilityDataVersion>();
+    public readonly onDidChangeData = this._onDidChangeData.event;
+
+    constructor(compatibilityService: CompatibilityDataService, configurationService: ConfigurationService) {
+        this.compatibilityService = compatibilityService;
+        this.configurationService = configurationService;
+        this.errorHandler = ErrorHandler.getInstance();
+
+        this.configChangeListener = this.configurationService.onConfigChanged(config => {
+            if (this.resolveSnapshotPath(config.dataSnapshotPath) !== this.activePath) {
+                this.reload();
+            }
+        });
+    }
+
+    async initialize(): Promise<void> {
+        await this.reload();
+    }
+
+    /**
+     * Load the configured snapshot, or switch back to the bundled data when
+     * no snapshot directory is configured or the snapshot fails to load
+     */
+    async reload(): Promise<void> {
+        const snapshotPath = this.resolveSnapshotPath(this.configurationService.getConfiguration().dataSnapshotPath);
+        this.watchSnapshot(snapshotPath);
+
+        if (!snapshotPath) {
+            if (this.compatibilityService.getDataVersion().source === 'snapshot') {
+                this.compatibilityService.useBundledData();
+                this._onDidChangeData.fire(this.compatibilityService.getDataVersion());
+            }
+            return;
+        }
+
+        try {
+            const snapshot = await this.loadSnapshot(snapshotPath);
+            this.compatibilityService.loadData(snapshot.webFeatures, snapshot.bcd, snapshot.version, snapshot.catalog);
+            this._onDidChangeData.fire(snapshot.version);
+            vscode.window.setStatusBarMessage(`Baseline Lens: using compatibility data snapshot (${this.describeVersion(snapshot.version)})`, 5000);
+        } catch (error) {
+            // Never keep serving an earlier snapshot while watching a different directory
+            if (this.compatibilityService.getDataVersion().source === 'snapshot') {
+                this.compatibilityService.useBundledData();
+                this._onDidChangeData.fire(this.compatibilityService.getDataVersion());
+            }
+
+            const message = error instanceof Error ? error.message : String(error);
+            const activeVersion = this.describeVersion(this.compatibilityService.getDataVersion());
+            this.errorHandler.handleDataLoadingError(new Error(`${message}. Using the bundled data instead (${activeVersion})`), {
+                operation: 'data_snapshot_loading',
+                fileName: snapshotPath
+            });
+        }
+    }
+
+    /**
+     * Read and validate the snapshot in a directory without activating it.
+     * Throws when the directory holds no recognizable or only invalid data.
+     */
+    async loadSnapshot(snapshotPath: string): Promise<LoadedSnapshot> {
+        const files = await this.readSnapshotFiles(snapshotPath);
+        const webFeaturesFile = files.find(file => this.isWebFeaturesData(file.data));
+        const bcdFile = files.find(file => this.isBCDData(file.data));
+
+        if (!webFeaturesFile && !bcdFile) {
+            throw new Error(`No web-features or browser-compat-data JSON files found in ${snapshotPath}`);
+        }
+
+        const errors = [
+            ...(webFeaturesFile ? this.validateWebFeaturesData(webFeaturesFile.data).map(error => `${webFeaturesFile.name}: ${error}`) : []),
+            ...(bcdFile ? this.validateBCDData(bcdFile.data).map(error => `${bcdFile.name}: ${error}`) : [])
+        ];
+        if (errors.length > 0) {
+            throw new Error(`Invalid compatibility data snapshot: ${errors.slice(0, DataSnapshotService.MAX_REPORTED_ERRORS).join('; ')}`);
+        }
+
+        // Sources missing from the snapshot keep using the bundled packages
+        const bundledVersion = CompatibilityDataService.getBundledDataVersion();
+        return {
+            webFeatures: webFeaturesFile ? this.normalizeWebFeaturesData(webFeaturesFile.data) : null,
+            bcd: bcdFile ? bcdFile.data : null,
+            catalog: webFeaturesFile ? this.extractCatalog(webFeaturesFile.data) : null,
+            version: {
+                source: 'snapshot',
+                webFeatures: webFeaturesFile ? this.describeFileVersion(webFeaturesFile) : bundledVersion.webFeatures,
+                bcd: bcdFile ? this.describeFileVersion(bcdFile, bcdFile.data.__meta?.version) : bundledVersion.bcd,
+                snapshotPath
+            }
+        };
+    }
+
+    /**
+     * Validate web-features data in either the package's index.json shape (a map
+     * of feature IDs) or the published data.json shape ({ features: {...} })
+     */
+    validateWebFeaturesData(data: any): string[] {
+        const errors: string[] = [];
+        const featureMap = data && typeof data === 'object' && data.features && typeof data.features === 'object'
+            ? data.features
+            : data;
+
+        if (!featureMap || typeof featureMap !== 'object' || Array.isArray(featureMap) || Object.keys(featureMap).length === 0) {
+            return ['expected a non-empty map of web features'];
+        }
+
+        for (const [id, feature] of Object.entries<any>(featureMap)) {
+            if (!feature || typeof feature !== 'object') {
+                errors.push(`feature "${id}" must be an object`);
+                continue;
+            }
+            // Redirect entries for moved or split features carry no data of their own
+            if (feature.kind === 'moved' || feature.kind === 'split') {
+                continue;
+            }
+            if (typeof feature.name !== 'string') {
+                errors.push(`feature "${id}" is missing a name`);
+            }
+            if (!feature.status || typeof feature.status !== 'object' || !['high', 'low', false].includes(feature.status.baseline)) {
+                errors.push(`feature "${id}" has an invalid status.baseline`);
+            }
+            if (feature.compat_features !== undefined &&
+                (!Array.isArray(feature.compat_features) || feature.compat_features.some((key: unknown) => typeof key !== 'string'))) {
+                errors.push(`feature "${id}" has invalid compat_features`);
+            }
+        }
+
+        return errors;
+    }
+
+    /**
+     * Validate browser-compat-data in the shape of the package's data.json
+     */
+    validateBCDData(data: any): string[] {
+        const errors: string[] = [];
+
+        if (!data || typeof data !== 'object' || !data.browsers || typeof data.browsers !== 'object') {
+            return ['expected a "browsers" object'];
+        }
+
+        for (const [browser, browserData] of Object.entries<any>(data.browsers)) {
+            if (!browserData || typeof browserData.releases !== 'object') {
+                errors.push(`browser "${browser}" is missing release data`);
+            }
+        }
+
+        if (!['api', 'css', 'html', 'javascript'].some(category => data[category] && typeof data[category] === 'object')) {
+            errors.push('expected at least one of the "api", "css", "html" or "javascript" categories');
+        }
+
+        return errors;
+    }
+
+    private async readSnapshotFiles(snapshotPath: string): Promise<SnapshotFile[]> {
+        const directoryUri = vscode.Uri.file(snapshotPath);
+        const entries = await vscode.workspace.fs.readDirectory(directoryUri);
+        const files: SnapshotFile[] = [];
+
+        for (const [name, type] of entries) {
+            if (type !== vscode.FileType.File || !name.endsWith('.json')) {
+                continue;
+            }
+
+            const fileUri = vscode.Uri.joinPath(directoryUri, name);
+            const content = await vscode.workspace.fs.readFile(fileUri);
+            const stat = await vscode.workspace.fs.stat(fileUri);
+            try {
+                files.push({ name, modified: stat.mtime, data: JSON.parse(Buffer.from(content).toString('utf8')) });
+            } catch (error) {
+                throw new Error(`${name} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        return files;
+    }
+
+    private isBCDData(data: any): boolean {
+        return !!data && typeof data === 'object' && !!data.browsers && (!!data.__meta || !!data.css || !!data.api);
+    }
+
+    private isWebFeaturesData(data: any): boolean {
+        if (!data || typeof data !== 'object' || this.isBCDData(data)) {
+            return false;
+        }
+
+        const featureMap = data.features && typeof data.features === 'object' ? data.features : data;
+        const first = Object.values<any>(featureMap)[0];
+        return !!first && typeof first === 'object' && ('compat_features' in first || 'status' in first || 'kind' in first);
+    }
+
+    /**
+     * Reduce published data.json files to the feature map used by the bundled package
+     */
+    private normalizeWebFeaturesData(data: any): any {
+        const featureMap = data.features && typeof data.features === 'object' ? data.features : data;
+        const normalized: { [id: string]: any } = {};
+
+        for (const [id, feature] of Object.entries<any>(featureMap)) {
+            if (feature.kind !== 'moved' && feature.kind !== 'split') {
+                normalized[id] = feature;
+            }
+        }
+
+        return normalized;
+    }
+
+    /**
+     * Keep the group and snapshot definitions of published data.json files,
+     * which the package's index.json shape does not include
+     */
+    private extractCatalog(data: any): WebFeatureCatalog | null {
+        if (!data.features || (!data.groups && !data.snapshots)) {
+            return null;
+        }
+
+        return {
+            groups: data.groups && typeof data.groups === 'object' ? data.groups : {},
+            snapshots: data.snapshots && typeof data.snapshots === 'object' ? data.snapshots : {}
+        };
+    }
+
+    /**
+     * Use the version recorded in the file when there is one, otherwise its modification date
+     */
+    private describeFileVersion(file: SnapshotFile, version?: string): string {
+        return version || `${file.name}, modified ${new Date(file.modified).toISOString().slice(0, 10)}`;
+    }
+
+    /**
+     * Describe the active data versions for status messages
+     */
+    describeVersion(version: CompatibilityDataVersion): string {
+        return `web-features: ${version.webFeatures}, browser-compat-data: ${version.bcd}`;
+    }
+
+    /**
+     * Resolve the configured directory, treating relative paths as relative to the workspace
+     */
+    private resolveSnapshotPath(configuredPath: string): string {
+        if (!configuredPath) {
+            return '';
+        }
+        if (path.isAbsolute(configuredPath)) {
+            return configuredPath;
+        }
+
+        const workspaceFolders = vscode.workspace.workspaceFolders;
+        return workspaceFolders && workspaceFolders.length > 0
+            ? path.join(workspaceFolders[0].uri.fsPath, configuredPath)
+            : configuredPath;
+    }
+
+    private watchSnapshot(snapshotPath: string): void {
+        if (snapshotPath === this.activePath && (this.snapshotWatcher || !snapshotPath)) {
+            return;
+        }
+
+        if (this.snapshotWatcher) {
+            this.snapshotWatcher.dispose();
+            this.snapshotWatcher = null;
+        }
+        this.activePath = snapshotPath;
+
+        if (!snapshotPath) {
+            return;
+        }
+
+        const pattern = new vscode.RelativePattern(vscode.Uri.file(snapshotPath), '*.json');
+        this.snapshotWatcher = vscode.workspace.createFileSystemWatcher(pattern);
+        this.snapshotWatcher.onDidCreate(this.scheduleReload, this);
+        this.snapshotWatcher.onDidChange(this.scheduleReload, this);
+        this.snapshotWatcher.onDidDelete(this.scheduleReload, this);
+    }
+
+    /**
+     * Snapshot files are often replaced together, so reload once they settle
+     */
+    private scheduleReload(): void {
+        if (this.reloadTimeout) {
+            clearTimeout(this.reloadTimeout);
+        }
+
+        this.reloadTimeout = setTimeout(() => {
+            this.reloadTimeout = null;
+            this.reload();
+        }, DataSnapshotService.RELOAD_DELAY);
+    }
+
+    dispose(): void {
+        if (this.reloadTimeout) {
+            clearTimeout(this.reloadTimeout);
+        }
+        if (this.snapshotWatcher) {
+            this.snapshotWatcher.dispose();
+        }
+        this.configChangeListener.dispose();
+        this._onDidChangeData.dispose();
+    }
+}
@@ -0,0 +1,366 @@
+import * as vscode from 'vscode';
+import { AnalysisEngine } from '../core/analysisEngine';
+import { CompatibilityDataService } from './compatibilityService';
+import { BaselineStatus } from '../types';
+
+/**
+ * A node in the web features catalog: a top-level section, a group or
+ * snapshot inside it, or a single web feature
+ */
+export type CatalogNode =
+    | { kind: 'section'; section: CatalogSection }
+    | { kind: 'group'; section: CatalogSection; groupId: string }
+    | { kind: 'feature'; featureId: string };
+
+type CatalogSection = 'groups' | 'snapshots' | 'categories';
+
+interface CatalogGroup {
+    name: string;
+    parent?: string;
+    children: string[];
+    features: string[];
+}
+
+/**
+ * Display names for BCD categories, used to group features when the loaded
+ * web-features data has no group definitions
+ */
+const BCD_CATEGORY_NAMES: { [category: string]: string } = {
+    api: 'Web APIs',
+    css: 'CSS',
+    html: 'HTML',
+    http: 'HTTP',
+    javascript: 'JavaScript',
+    mathml: 'MathML',
+    svg: 'SVG',
+    webassembly: 'WebAssembly',
+    webextensions: 'Web Extensions'
+};
+
+const BCD_SUBCATEGORY_NAMES: { [subcategory: string]: string } = {
+    'at-rules': 'At-rules',
+    builtins: 'Built-ins',
+    global_attributes: 'Global attributes',
+    regular_expressions: 'Regular expressions'
+};
+
+/** Categories whose second key segment is a useful subcategory, e.g. css.properties */
+const SUBCATEGORIZED_BCD_CATEGORIES = ['css', 'html', 'javascript', 'svg'];
+
+/** Features without a group or BCD key */
+const OTHER_GROUP = 'other';
+
+const STATUS_ORDER: { [status: string]: number } = {
+    widely_available: 0,
+    newly_available: 1,
+    limited_availability: 2
+};
+
+/**
+ * Tree data provider for the web features catalog in the activity bar. Features
+ * are listed by web-features group and snapshot, or by BCD category when the
+ * loaded data has no groups, and the ones used in the workspace are highlighted.
+ */
+export class FeatureCatalogProvider implements vscode.TreeDataProvider<CatalogNode>, vscode.Disposable {
+    static readonly SHOW_DETAILS_COMMAND = 'baseline-lens.showFeatureDetails';
+
+    private readonly compatibilityService: CompatibilityDataService;
+    private readonly analysisEngine: AnalysisEngine;
+    private groups: Map<string, CatalogGroup> | null = null;
+    private snapshots: Map<string, CatalogGroup> | null = null;
+    private groupSection: CatalogSection = 'groups';
+    private usageCounts: Map<string, number> = new Map();
+    private usageScan: Promise<void> | null = null;
+
+    private _onDidChangeTreeData = new vscode.EventEmitter<CatalogNode | undefined>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    constructor(compatibilityService: CompatibilityDataService, analysisEngine: AnalysisEngine) {
+        this.compatibilityService = compatibilityService;
+        this.analysisEngine = analysisEngine;
+    }
+
+    /**
+     * Rebuild the catalog from the active data and rescan the workspace
+     */
+    refresh(): void {
+        this.groups = null;
+        this.snapshots = null;
+        this.usageScan = null;
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    getTreeItem(node: CatalogNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'section':
+                return this.createSectionItem(node.section);
+            case 'group':
+                return this.createGroupItem(node.section, node.groupId);
+            case 'feature':
+                return this.createFeatureItem(node.featureId);
+        }
+    }
+
+    getChildren(node?: CatalogNode): CatalogNode[] {
+        this.ensureCatalog();
+        if (!node) {
+            this.scanWorkspaceUsages();
+            const sections: CatalogNode[] = [{ kind: 'section', section: this.groupSection }];
+            if (this.snapshots!.size > 0) {
+                sections.push({ kind: 'section', section: 'snapshots' });
+            }
+            return sections;
+        }
+
+        if (node.kind === 'section') {
+            const groups = this.getGroupMap(node.section);
+            return this.sortGroups(node.section, Array.from(groups.keys()).filter(id => !groups.get(id)!.parent))
+                .map(groupId => ({ kind: 'group', section: node.section, groupId }));
+        }
+
+        if (node.kind === 'group') {
+            const group = this.getGroupMap(node.section).get(node.groupId)!;
+            return [
+                ...this.sortGroups(node.section, group.children).map(groupId => ({ kind: 'group' as const, section: node.section, groupId })),
+                ...this.sortFeatures(group.features).map(featureId => ({ kind: 'feature' as const, featureId }))
+            ];
+        }
+
+        return [];
+    }
+
+    /**
+     * Count how often each web feature is used, given the features detected in the workspace
+     */
+    setWorkspaceUsages(featureIds: string[]): void {
+        this.usageCounts = new Map();
+        for (const featureId of featureIds) {
+            const webFeatureId = this.compatibilityService.getWebFeatureId(featureId);
+            if (webFeatureId) {
+                this.usageCounts.set(webFeatureId, (this.usageCounts.get(webFeatureId) || 0) + 1);
+            }
+        }
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    getUsageCount(featureId: string): number {
+        return this.usageCounts.get(featureId) || 0;
+    }
+
+    /**
+     * Group every web feature by its web-features groups and snapshots. Without
+     * group data, features are grouped by the BCD category of their first key.
+     */
+    private ensureCatalog(): void {
+        if (this.groups && this.snapshots) {
+            return;
+        }
+
+        const features = this.compatibilityService.searchFeatures('');
+        const hasGroups = features.some(feature => this.compatibilityService.getFeatureGroups(feature.id).length > 0);
+        this.groupSection = hasGroups ? 'groups' : 'categories';
+        this.groups = new Map();
+        this.snapshots = new Map();
+
+        for (const feature of features) {
+            const groupIds = hasGroups
+                ? this.compatibilityService.getFeatureGroups(feature.id)
+                : [this.getCategoryGroupId(feature.compat_features)];
+            if (groupIds.length === 0) {
+                groupIds.push(OTHER_GROUP);
+            }
+            for (const groupId of groupIds) {
+                this.addGroup(this.groups, groupId, hasGroups).features.push(feature.id);
+            }
+
+            for (const snapshotId of this.compatibilityService.getFeatureSnapshots(feature.id)) {
+                if (!this.snapshots.has(snapshotId)) {
+                    this.snapshots.set(snapshotId, { name: this.compatibilityService.getSnapshotName(snapshotId), children: [], features: [] });
+                }
+                this.snapshots.get(snapshotId)!.features.push(feature.id);
+            }
+        }
+    }
+
+    /**
+     * Add a group and its ancestors to the catalog, linking each to its parent
+     */
+    private addGroup(groups: Map<string, CatalogGroup>, groupId: string, hasGroups: boolean): CatalogGroup {
+        const existing = groups.get(groupId);
+        if (existing) {
+            return existing;
+        }
+
+        const info = hasGroups && groupId !== OTHER_GROUP
+            ? this.compatibilityService.getGroupInfo(groupId)
+            : this.getCategoryInfo(groupId);
+        const group: CatalogGroup = { name: info.name, parent: info.parent, children: [], features: [] };
+        groups.set(groupId, group);
+
+        if (info.parent) {
+            this.addGroup(groups, info.parent, hasGroups).children.push(groupId);
+        }
+
+        return group;
+    }
+
+    private getCategoryGroupId(compatFeatures: string[] | undefined): string {
+        const [category, subcategory] = (compatFeatures?.[0] || '').split('.');
+        if (!category) {
+            return OTHER_GROUP;
+        }
+        return SUBCATEGORIZED_BCD_CATEGORIES.includes(category) && subcategory ? `${category}.${subcategory}` : category;
+    }
+
+    private getCategoryInfo(groupId: string): { name: string; parent?: string } {
+        if (groupId === OTHER_GROUP) {
+            return { name: 'Other' };
+        }
+
+        const [category, subcategory] = groupId.split('.');
+        if (!subcategory) {
+            return { name: BCD_CATEGORY_NAMES[category] || category };
+        }
+
+        const name = BCD_SUBCATEGORY_NAMES[subcategory] || subcategory.charAt(0).toUpperCase() + subcategory.slice(1).replace(/[_-]/g, ' ');
+        return { name, parent: category };
+    }
+
+    private getGroupMap(section: CatalogSection): Map<string, CatalogGroup> {
+        return section === 'snapshots' ? this.snapshots! : this.groups!;
+    }
+
+    /**
+     * Sort groups by name, and snapshots newest first
+     */
+    private sortGroups(section: CatalogSection, groupIds: string[]): string[] {
+        const groups = this.getGroupMap(section);
+        const sorted = [...groupIds].sort((a, b) => groups.get(a)!.name.localeCompare(groups.get(b)!.name, undefined, { numeric: true }));
+        return section === 'snapshots' ? sorted.reverse() : sorted;
+    }
+
+    /**
+     * Sort the safest features first so developers can see what to adopt next
+     */
+    private sortFeatures(featureIds: string[]): string[] {
+        const statuses = new Map(featureIds.map(id => [id, this.compatibilityService.getFeatureStatus(id)]));
+        return [...featureIds].sort((a, b) =>
+            (STATUS_ORDER[statuses.get(a)?.status || 'limited_availability'] - STATUS_ORDER[statuses.get(b)?.status || 'limited_availability']) ||
+            (this.compatibilityService.getFeatureDetails(a)?.name || a).localeCompare(this.compatibilityService.getFeatureDetails(b)?.name || b)
+        );
+    }
+
+    private createSectionItem(section: CatalogSection): vscode.TreeItem {
+        const labels: { [key in CatalogSection]: string } = {
+            groups: 'Groups',
+            snapshots: 'Snapshots',
+            categories: 'Categories'
+        };
+
+        const item = new vscode.TreeItem(labels[section], vscode.TreeItemCollapsibleState.Expanded);
+        item.contextValue = 'section';
+        if (section === 'categories') {
+            item.tooltip = 'The loaded web-features data has no groups, so features are grouped by MDN compatibility data category';
+        }
+        return item;
+    }
+
+    private createGroupItem(section: CatalogSection, groupId: string): vscode.TreeItem {
+        const group = this.getGroupMap(section).get(groupId)!;
+        const featureIds = this.collectFeatures(section, groupId);
+        const usedCount = featureIds.filter(id => this.getUsageCount(id) > 0).length;
+
+        const item = new vscode.TreeItem(this.createLabel(group.name, usedCount > 0), vscode.TreeItemCollapsibleState.Collapsed);
+        item.id = `${section}:${groupId}`;
+        item.contextValue = 'group';
+        item.iconPath = new vscode.ThemeIcon(section === 'snapshots' ? 'history' : 'folder');
+        item.description = usedCount > 0
+            ? `${featureIds.length} features, ${usedCount} used`
+            : `${featureIds.length} features`;
+        return item;
+    }
+
+    private createFeatureItem(featureId: string): vscode.TreeItem {
+        const details = this.compatibilityService.getFeatureDetails(featureId);
+        const baseline = this.compatibilityService.getFeatureStatus(featureId);
+        const usageCount = this.getUsageCount(featureId);
+        const name = details?.name || featureId;
+
+        const item = new vscode.TreeItem(this.createLabel(name, usageCount > 0), vscode.TreeItemCollapsibleState.None);
+        item.contextValue = 'feature';
+        item.iconPath = this.getStatusIcon(baseline);
+
+        const statusLabel = this.getStatusLabel(baseline);
+        item.description = usageCount > 0
+            ? `${statusLabel} · used ${usageCount} ${usageCount === 1 ? 'time' : 'times'}`
+            : statusLabel;
+
+        const tooltip = new vscode.MarkdownString(`**${name}** \`${featureId}\`\n\n${statusLabel}`);
+        if (details?.description) {
+            tooltip.appendMarkdown(`\n\n${details.description}`);
+        }
+        item.tooltip = tooltip;
+
+        item.command = {
+            command: FeatureCatalogProvider.SHOW_DETAILS_COMMAND,
+            title: 'Show Feature Details',
+            arguments: [featureId]
+        };
+        return item;
+    }
+
+    private collectFeatures(section: CatalogSection, groupId: string): string[] {
+        const group = this.getGroupMap(section).get(groupId)!;
+        const featureIds = new Set(group.features);
+        for (const childId of group.children) {
+            this.collectFeatures(section, childId).forEach(id => featureIds.add(id));
+        }
+        return Array.from(featureIds);
+    }
+
+    /**
+     * Highlight the whole label of nodes the workspace uses
+     */
+    private createLabel(label: string, used: boolean): vscode.TreeItemLabel {
+        return used ? { label, highlights: [[0, label.length]] } : { label };
+    }
+
+    private getStatusIcon(baseline: BaselineStatus | null): vscode.ThemeIcon {
+        switch (baseline?.status) {
+            case 'widely_available':
+                return new vscode.ThemeIcon('pass-filled', new vscode.ThemeColor('testing.iconPassed'));
+            case 'newly_available':
+                return new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+            default:
+                return new vscode.ThemeIcon('error', new vscode.ThemeColor('list.errorForeground'));
+        }
+    }
+
+    private getStatusLabel(baseline: BaselineStatus | null): string {
+        switch (baseline?.status) {
+            case 'widely_available':
+                return 'Widely available';
+            case 'newly_available':
+                return baseline.low_date ? `Baseline ${baseline.low_date.slice(0, 4)}` : 'Newly available';
+            default:
+                return 'Limited availability';
+        }
+    }
+
+    /**
+     * Find the features used in the workspace once per refresh, in the background
+     */
+    private scanWorkspaceUsages(): void {
+        if (this.usageScan || !vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
+            return;
+        }
+
+        this.usageScan = this.analysisEngine.analyzeProject()
+            .then(result => this.setWorkspaceUsages(result.features.map(feature => feature.id)))
+            .catch(error => console.warn('Failed to scan the workspace for the feature catalog:', error));
+    }
+
+    dispose(): void {
+        this._onDidChangeTreeData.dispose();
+    }
+}
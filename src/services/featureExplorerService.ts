@@ -0,0 +1,298 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { AnalysisEngine } from '../core/analysisEngine';
+import { CompatibilityDataService } from './compatibilityService';
+import { BaselineStatus, DetectedFeature, WebFeature } from '../types';
+
+/**
+ * Quick pick entry for a web feature
+ */
+interface FeatureQuickPickItem extends vscode.QuickPickItem {
+    featureId: string;
+}
+
+/**
+ * Service behind the web feature explorer: a fuzzy quick pick over every
+ * web-features entry and a detail view showing the feature's Baseline status,
+ * browser support, documentation and where the workspace uses it
+ */
+export class FeatureExplorerService implements vscode.Disposable {
+    static readonly OPEN_USAGE_COMMAND = 'baseline-lens.openFeatureUsage';
+
+    private readonly compatibilityService: CompatibilityDataService;
+    private readonly analysisEngine: AnalysisEngine;
+    private detailPanel: vscode.WebviewPanel | null = null;
+
+    constructor(compatibilityService: CompatibilityDataService, analysisEngine: AnalysisEngine) {
+        this.compatibilityService = compatibilityService;
+        this.analysisEngine = analysisEngine;
+    }
+
+    /**
+     * Show the search quick pick and open the details of the selected feature
+     */
+    async showSearch(): Promise<void> {
+        const quickPick = vscode.window.createQuickPick<FeatureQuickPickItem>();
+        quickPick.title = 'Baseline Lens: Search Web Features';
+        quickPick.placeholder = 'Search web features by name, ID or description';
+        quickPick.matchOnDescription = true;
+        quickPick.items = this.createQuickPickItems('');
+
+        quickPick.onDidChangeValue(value => {
+            quickPick.items = this.createQuickPickItems(value);
+        });
+
+        const selected = await new Promise<FeatureQuickPickItem | undefined>(resolve => {
+            quickPick.onDidAccept(() => resolve(quickPick.selectedItems[0]));
+            quickPick.onDidHide(() => resolve(undefined));
+            quickPick.show();
+        });
+        quickPick.dispose();
+
+        if (selected) {
+            await this.showFeatureDetails(selected.featureId);
+        }
+    }
+
+    /**
+     * Open the detail view for a web feature, including its workspace usages
+     */
+    async showFeatureDetails(featureId: string): Promise<void> {
+        const feature = this.compatibilityService.searchFeatures(featureId).find(result => result.id === featureId);
+        if (!feature) {
+            vscode.window.showWarningMessage(`Unknown web feature: ${featureId}`);
+            return;
+        }
+
+        const usages = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Finding uses of ${feature.name} in the workspace`
+            },
+            () => this.findWorkspaceUsages(featureId)
+        );
+
+        if (!this.detailPanel) {
+            this.detailPanel = vscode.window.createWebviewPanel(
+                'baselineLensFeatureDetails',
+                feature.name,
+                vscode.ViewColumn.Active,
+                { enableScripts: false, enableCommandUris: [FeatureExplorerService.OPEN_USAGE_COMMAND] }
+            );
+            this.detailPanel.onDidDispose(() => {
+                this.detailPanel = null;
+            });
+        } else {
+            this.detailPanel.reveal();
+        }
+
+        this.detailPanel.title = `Baseline: ${feature.name}`;
+        this.detailPanel.webview.html = this.getDetailsHtml(feature, usages);
+    }
+
+    /**
+     * Open a workspace usage listed in the detail view
+     */
+    async openUsage(filePath: string, line: number, character: number): Promise<void> {
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+        const position = new vscode.Position(line, character);
+        await vscode.window.showTextDocument(document, { selection: new vscode.Range(position, position) });
+    }
+
+    /**
+     * Select the detected features that belong to a web feature, either
+     * directly or through one of its BCD keys
+     */
+    getFeatureUsages(featureId: string, features: DetectedFeature[]): DetectedFeature[] {
+        return features
+            .filter(feature => feature.id === featureId || this.compatibilityService.getWebFeatureId(feature.id) === featureId)
+            .sort((a, b) => (a.filePath || '').localeCompare(b.filePath || '') || a.range.start.line - b.range.start.line);
+    }
+
+    private async findWorkspaceUsages(featureId: string): Promise<DetectedFeature[]> {
+        if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
+            return [];
+        }
+
+        try {
+            const result = await this.analysisEngine.analyzeProject();
+            return this.getFeatureUsages(featureId, result.features);
+        } catch (error) {
+            console.warn(`Failed to find workspace usages of ${featureId}:`, error);
+            return [];
+        }
+    }
+
+    private createQuickPickItems(query: string): FeatureQuickPickItem[] {
+        return this.compatibilityService.searchFeatures(query).map(feature => ({
+            featureId: feature.id,
+            label: `${this.getStatusIcon(feature.baseline)} ${feature.name}`,
+            description: feature.id,
+            detail: feature.description,
+            // Results are already ranked by searchFeatures, so keep them all visible
+            alwaysShow: true
+        }));
+    }
+
+    private getDetailsHtml(feature: WebFeature, usages: DetectedFeature[]): string {
+        const baseline = feature.baseline;
+        const details = this.compatibilityService.getFeatureDetails(feature.id);
+        const sections: string[] = [];
+
+        sections.push(`<h1>${this.getStatusIcon(baseline)} ${this.escapeHtml(feature.name)}</h1>`);
+        sections.push(`<p><code>${this.escapeHtml(feature.id)}</code> &middot; <strong>${this.getStatusLabel(baseline)}</strong></p>`);
+        if (feature.description) {
+            sections.push(`<p>${this.escapeHtml(feature.description)}</p>`);
+        }
+
+        const dates: string[] = [];
+        if (baseline?.low_date) {
+            dates.push(`<li><strong>Newly available:</strong> ${this.escapeHtml(baseline.low_date)}</li>`);
+        }
+        if (baseline?.high_date) {
+            dates.push(`<li><strong>Widely available:</strong> ${this.escapeHtml(baseline.high_date)}</li>`);
+        }
+        if (dates.length > 0) {
+            sections.push(`<h2>Baseline Dates</h2><ul>${dates.join('')}</ul>`);
+        }
+
+        sections.push('<h2>Browser Support</h2>');
+        sections.push(this.getBrowserSupportHtml(feature.id, baseline));
+
+        // Web features without an MDN link of their own use the first BCD key's documentation
+        const mdnUrl = details?.mdn_url || (feature.compat_features || [])
+            .map(bcdKey => this.compatibilityService.getBCDData(bcdKey)?.mdn_url)
+            .find(url => !!url);
+        const links: string[] = [];
+        if (mdnUrl) {
+            links.push(`<li><a href="${this.escapeHtml(mdnUrl)}">MDN Web Docs</a></li>`);
+        }
+        if (feature.spec_url) {
+            links.push(`<li><a href="${this.escapeHtml(feature.spec_url)}">Specification</a></li>`);
+        }
+        links.push(`<li><a href="https://web-platform-dx.github.io/web-features-explorer/features/${encodeURIComponent(feature.id)}/">Web features explorer</a></li>`);
+        sections.push(`<h2>Links</h2><ul>${links.join('')}</ul>`);
+
+        sections.push(`<h2>Used in this Workspace (${usages.length})</h2>`);
+        sections.push(this.getUsagesHtml(usages));
+
+        return `<!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>${this.escapeHtml(feature.name)}</title>
+            <style>
+                body {
+                    font-family: var(--vscode-font-family);
+                    font-size: var(--vscode-font-size);
+                    color: var(--vscode-foreground);
+                    background-color: var(--vscode-editor-background);
+                    line-height: 1.6;
+                    padding: 20px;
+                    max-width: 800px;
+                    margin: 0 auto;
+                }
+                h1, h2 { color: var(--vscode-textLink-foreground); }
+                a { color: var(--vscode-textLink-foreground); }
+                code {
+                    background-color: var(--vscode-textCodeBlock-background);
+                    padding: 2px 4px;
+                    border-radius: 3px;
+                }
+                table { border-collapse: collapse; }
+                th, td {
+                    text-align: left;
+                    padding: 4px 12px 4px 0;
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                }
+            </style>
+        </head>
+        <body>
+            ${sections.join('\n')}
+        </body>
+        </html>`;
+    }
+
+    private getBrowserSupportHtml(featureId: string, baseline: BaselineStatus | undefined): string {
+        if (!baseline) {
+            return '<p>No support data available.</p>';
+        }
+
+        const rows = this.compatibilityService.getCoreBrowsers().map(browser => {
+            const support = this.compatibilityService.getBrowserSupport(featureId, baseline, browser);
+            let version = 'Unknown';
+            let notes = '';
+
+            if (support) {
+                const supported = this.compatibilityService.isUnqualifiedSupport(support);
+                version = supported && typeof support.version_added === 'string'
+                    ? support.version_added
+                    : support.version_added === true ? 'Yes' : 'No';
+                notes = this.compatibilityService.describeSupportCaveat(support) || '';
+            }
+
+            return `<tr><td>${this.escapeHtml(this.compatibilityService.getBrowserName(browser))}</td>` +
+                `<td>${this.escapeHtml(version)}</td><td>${this.escapeHtml(notes)}</td></tr>`;
+        });
+
+        return `<table><tr><th>Browser</th><th>Version</th><th>Notes</th></tr>${rows.join('')}</table>`;
+    }
+
+    private getUsagesHtml(usages: DetectedFeature[]): string {
+        if (usages.length === 0) {
+            return '<p>This feature is not used in the workspace.</p>';
+        }
+
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+        const items = usages.map(usage => {
+            const filePath = usage.filePath || '';
+            const line = usage.range.start.line;
+            const character = usage.range.start.character;
+            const args = encodeURIComponent(JSON.stringify([filePath, line, character]));
+            const location = `${workspaceRoot ? path.relative(workspaceRoot, filePath) : filePath}:${line + 1}:${character + 1}`;
+
+            return `<li><a href="command:${FeatureExplorerService.OPEN_USAGE_COMMAND}?${args}">${this.escapeHtml(location)}</a>` +
+                ` &middot; <code>${this.escapeHtml(usage.name)}</code></li>`;
+        });
+
+        return `<ul>${items.join('')}</ul>`;
+    }
+
+    private getStatusIcon(baseline: BaselineStatus | undefined): string {
+        switch (baseline?.status) {
+            case 'widely_available':
+                return '✅';
+            case 'newly_available':
+                return '⚠️';
+            default:
+                return '🚫';
+        }
+    }
+
+    private getStatusLabel(baseline: BaselineStatus | undefined): string {
+        switch (baseline?.status) {
+            case 'widely_available':
+                return 'Baseline: Widely available';
+            case 'newly_available':
+                return 'Baseline: Newly available';
+            default:
+                return 'Limited availability';
+        }
+    }
+
+    private escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+
+    dispose(): void {
+        if (this.detailPanel) {
+            this.detailPanel.dispose();
+        }
+    }
+}
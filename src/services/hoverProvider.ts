@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { DetectedFeature, BaselineStatus, WebFeatureDetails } from '../types';
+import { DetectedFeature, BaselineStatus, WebFeatureDetails, BaselineTargetResult } from '../types';
 import { CompatibilityDataService } from './compatibilityService';
 
 interface HoverCacheEntry {
@@ -117,11 +117,27 @@ export class HoverProvider implements vscode.HoverProvider {
             markdown.appendMarkdown(`*${featureDetails.description}*\n\n`);
         }
 
+        // Deprecation and standardization warnings
+        this.appendStandardStatus(markdown, feature);
+
+        // Feature-detection guard
+        if (feature.guard) {
+            markdown.appendMarkdown(`**🛡️ Guarded by \`${feature.guard.description}\`**: browsers without support skip this code\n\n`);
+        }
+
+        // Vendor prefix issue
+        if (feature.vendorPrefix) {
+            markdown.appendMarkdown(`**🔧 ${feature.vendorPrefix.kind === 'redundant' ? 'Unnecessary vendor prefix' : 'Missing vendor prefix'}**: ${feature.vendorPrefix.fix.title}\n\n`);
+        }
+
         // Baseline information
-        this.appendBaselineInfo(markdown, feature.baselineStatus);
+        this.appendBaselineInfo(markdown, feature.baselineStatus, feature.baselineTarget);
 
         // Browser support breakdown
-        this.appendBrowserSupport(markdown, feature.baselineStatus);
+        this.appendBrowserSupport(markdown, feature);
+
+        // Custom browser matrix results
+        this.appendTargetSupport(markdown, feature);
 
         // Context information
         if (feature.context) {
@@ -140,10 +156,35 @@ export class HoverProvider implements vscode.HoverProvider {
         return markdown;
     }
 
+    /**
+     * Warn about deprecated, non-standard and experimental features
+     */
+    private appendStandardStatus(markdown: vscode.MarkdownString, feature: DetectedFeature): void {
+        const status = feature.standardStatus;
+        if (!status) {
+            return;
+        }
+
+        const labels: string[] = [];
+        if (status.deprecated) {
+            labels.push('Deprecated');
+        }
+        if (!status.standardTrack) {
+            labels.push('Non-standard');
+        }
+        if (status.experimental) {
+            labels.push('Experimental');
+        }
+
+        if (labels.length > 0) {
+            markdown.appendMarkdown(`**⚠️ ${labels.join(' · ')}**\n\n`);
+        }
+    }
+
     /**
      * Append baseline information to hover content
      */
-    private appendBaselineInfo(markdown: vscode.MarkdownString, baseline: BaselineStatus): void {
+    private appendBaselineInfo(markdown: vscode.MarkdownString, baseline: BaselineStatus, baselineTarget?: BaselineTargetResult): void {
         markdown.appendMarkdown(`#### 📊 Baseline Status\n\n`);
 
         const statusDescription = this.getDetailedStatusDescription(baseline.status);
@@ -161,36 +202,50 @@ export class HoverProvider implements vscode.HoverProvider {
             markdown.appendMarkdown(`**High Support Date:** ${baseline.high_date}\n`);
         }
 
+        if (baselineTarget) {
+            const outcome = baselineTarget.meetsTarget ? '✅ Within target' : '❌ Outside target';
+            markdown.appendMarkdown(`**Target:** ${baselineTarget.label} ${outcome}\n`);
+        }
+
         markdown.appendMarkdown(`\n`);
     }
 
     /**
-     * Append browser support breakdown
+     * Append browser support breakdown for the configured core browsers
      */
-    private appendBrowserSupport(markdown: vscode.MarkdownString, baseline: BaselineStatus): void {
-        if (!baseline.support || Object.keys(baseline.support).length === 0) {
+    private appendBrowserSupport(markdown: vscode.MarkdownString, feature: DetectedFeature): void {
+        const baseline = feature.baselineStatus;
+        const audienceSupport = feature.audienceSupport;
+        const rows = this.compatibilityService.getCoreBrowsers()
+            .map(browser => ({ browser, support: this.compatibilityService.getBrowserSupport(feature.id, baseline, browser) }))
+            .filter(row => row.support !== null);
+
+        if (rows.length === 0 && !audienceSupport) {
             return;
         }
 
         markdown.appendMarkdown(`#### 🌐 Browser Support\n\n`);
+
+        if (audienceSupport) {
+            const thresholdIcon = audienceSupport.meetsThreshold ? '✅' : '⚠️';
+            markdown.appendMarkdown(`**Global Support:** ${audienceSupport.percentage}% of users ${thresholdIcon} (threshold: ${audienceSupport.threshold}%)\n\n`);
+        }
+
+        if (rows.length === 0) {
+            return;
+        }
+
         markdown.appendMarkdown(`| Browser | Version | Notes |\n`);
         markdown.appendMarkdown(`|---------|---------|-------|\n`);
 
-        // Sort browsers for consistent display
-        const sortedBrowsers = Object.entries(baseline.support).sort(([a], [b]) => {
-            const browserOrder = ['chrome', 'firefox', 'safari', 'edge', 'ie', 'opera'];
-            const aIndex = browserOrder.indexOf(a.toLowerCase());
-            const bIndex = browserOrder.indexOf(b.toLowerCase());
-            if (aIndex !== -1 && bIndex !== -1) {
-                return aIndex - bIndex;
-            }
-            return a.localeCompare(b);
-        });
-
-        for (const [browser, support] of sortedBrowsers) {
+        // Rows follow the order of the configured core browsers
+        for (const { browser, support } of rows) {
             const browserName = this.formatBrowserName(browser);
-            const version = this.formatVersion(support.version_added);
-            const notes = support.notes || '';
+            // Prefixed, renamed, flagged, removed or partial support does not count
+            const countsAsSupport = support!.version_added === false || this.compatibilityService.isUnqualifiedSupport(support!);
+            const version = countsAsSupport ? this.formatVersion(support!.version_added) : this.formatVersion(false);
+            const caveat = this.compatibilityService.describeSupportCaveat(support!);
+            const notes = [caveat ? `⚠️ ${caveat}` : '', support!.notes || ''].filter(Boolean).join(' — ');
             const browserIcon = this.getBrowserIcon(browser);
 
             markdown.appendMarkdown(`| ${browserIcon} ${browserName} | ${version} | ${notes} |\n`);
@@ -199,6 +254,29 @@ export class HoverProvider implements vscode.HoverProvider {
         markdown.appendMarkdown(`\n`);
     }
 
+    /**
+     * Append pass/fail results for the configured browser targets
+     */
+    private appendTargetSupport(markdown: vscode.MarkdownString, feature: DetectedFeature): void {
+        if (!feature.targetSupport || feature.targetSupport.length === 0) {
+            return;
+        }
+
+        markdown.appendMarkdown(`#### 🎯 Target Browsers\n\n`);
+        markdown.appendMarkdown(`| Browser | Target | Supported Since | Result |\n`);
+        markdown.appendMarkdown(`|---------|--------|-----------------|--------|\n`);
+
+        for (const result of feature.targetSupport) {
+            const browserName = this.formatBrowserName(result.browser);
+            const versionAdded = result.versionAdded === null ? 'Unknown' : this.formatVersion(result.versionAdded);
+            const outcome = (result.supported ? '✅ Pass' : '❌ Fail') + (result.caveat ? ` (${result.caveat})` : '');
+
+            markdown.appendMarkdown(`| ${this.getBrowserIcon(result.browser)} ${browserName} | ${result.targetVersion} | ${versionAdded} | ${outcome} |\n`);
+        }
+
+        markdown.appendMarkdown(`\n`);
+    }
+
     /**
      * Append educational content based on feature status
      */
@@ -284,7 +362,7 @@ export class HoverProvider implements vscode.HoverProvider {
             case 'newly_available':
                 recommendations.push('Consider providing fallbacks for older browsers');
                 recommendations.push('Test thoroughly across different browser versions');
-                if (feature.type === 'css') {
+                if (feature.type === 'css' && !feature.guard) {
                     recommendations.push('Use feature queries (@supports) to provide fallbacks');
                 }
                 break;
@@ -297,6 +375,12 @@ export class HoverProvider implements vscode.HoverProvider {
                 break;
         }
 
+        if (feature.standardStatus?.deprecated) {
+            recommendations.unshift('Replace this deprecated feature; browsers may remove it');
+        } else if (feature.standardStatus && !feature.standardStatus.standardTrack) {
+            recommendations.unshift('Prefer a standard alternative to this non-standard feature');
+        }
+
         // Type-specific recommendations
         if (feature.type === 'css') {
             recommendations.push('Validate your CSS with vendor prefixes if needed');
@@ -344,10 +428,11 @@ export class HoverProvider implements vscode.HoverProvider {
             'chrome_android': 'Chrome Android',
             'firefox_android': 'Firefox Android',
             'safari_ios': 'Safari iOS',
-            'samsung_android': 'Samsung Internet'
+            'samsunginternet_android': 'Samsung Internet',
+            'webview_android': 'Android WebView'
         };
 
-        return browserNames[browser.toLowerCase()] || browser;
+        return browserNames[browser.toLowerCase()] || this.compatibilityService.getBrowserName(browser);
     }
 
     /**
@@ -378,7 +463,8 @@ export class HoverProvider implements vscode.HoverProvider {
             'chrome_android': '🟡',
             'firefox_android': '🟠',
             'safari_ios': '🔵',
-            'samsung_android': '🟣'
+            'samsunginternet_android': '🟣',
+            'webview_android': '🟢'
         };
         return browserIcons[browser.toLowerCase()] || '⚪';
     }
@@ -451,7 +537,15 @@ export class HoverProvider implements vscode.HoverProvider {
      * Create cache key for a feature
      */
     private createCacheKey(feature: DetectedFeature): string {
-        return `${feature.id}:${feature.baselineStatus.status}:${feature.baselineStatus.baseline_date || 'no-date'}`;
+        const targets = (feature.targetSupport || [])
+            .map(result => `${result.browser}@${result.targetVersion}=${result.supported}`)
+            .join(',');
+        const threshold = feature.audienceSupport ? feature.audienceSupport.threshold : 'no-threshold';
+        const baselineTarget = feature.baselineTarget ? `${feature.baselineTarget.label}=${feature.baselineTarget.meetsTarget}` : 'no-target';
+        const browsers = this.compatibilityService.getCoreBrowsers().join(',');
+        const guard = feature.guard ? feature.guard.description : 'no-guard';
+        const vendorPrefix = feature.vendorPrefix ? feature.vendorPrefix.fix.title : 'no-prefix';
+        return `${feature.id}:${feature.baselineStatus.status}:${feature.baselineStatus.baseline_date || 'no-date'}:${targets}:${threshold}:${baselineTarget}:${browsers}:${guard}:${vendorPrefix}`;
     }
 
     /**
@@ -7,11 +7,30 @@ import {
     FileLocation, 
     DetectedFeature, 
     WebFeatureDetails,
-    ProjectAnalysisResult 
+    ProjectAnalysisResult,
+    BaselineStatus,
+    BrowserSupportChange,
+    DataUpdateReport,
+    FeatureDataChange,
+    FeatureDataChangeType
 } from '../types';
 import { AnalysisEngine } from '../core/analysisEngine';
+import { compareBrowserVersions } from '../core/browserVersions';
 import { CompatibilityDataService } from './compatibilityService';
 
+/**
+ * Order and headings of change types in data update reports
+ */
+const DATA_CHANGE_SECTIONS: { type: FeatureDataChangeType; title: string }[] = [
+    { type: 'status_downgrade', title: 'Status Downgrades' },
+    { type: 'support_regression', title: 'Support Regressions' },
+    { type: 'removed', title: 'No Longer Tracked' },
+    { type: 'status_upgrade', title: 'Status Upgrades' },
+    { type: 'added', title: 'Newly Tracked' },
+    { type: 'date_change', title: 'Baseline Date Changes' },
+    { type: 'support_change', title: 'Other Support Changes' }
+];
+
 export class ReportGenerator {
     private analysisEngine: AnalysisEngine;
     private compatibilityService: CompatibilityDataService;
@@ -84,6 +103,176 @@ export class ReportGenerator {
         }
     }
 
+    /**
+     * Compare the compatibility data of every feature used in the workspace
+     * between two datasets, e.g. before and after a data update
+     */
+    async generateDataUpdateReport(
+        previousData: CompatibilityDataService,
+        currentData: CompatibilityDataService,
+        progressCallback?: (progress: number, message: string) => void
+    ): Promise<DataUpdateReport> {
+        try {
+            progressCallback?.(0, 'Starting project analysis...');
+
+            const projectResult = await this.analysisEngine.analyzeProject();
+
+            progressCallback?.(50, 'Comparing compatibility data...');
+
+            const usages = new Map<string, { name: string; locations: FileLocation[] }>();
+            for (const feature of projectResult.features) {
+                if (!usages.has(feature.id)) {
+                    const details = currentData.getFeatureDetails(feature.id) || previousData.getFeatureDetails(feature.id);
+                    usages.set(feature.id, { name: details?.name || feature.name, locations: [] });
+                }
+                usages.get(feature.id)!.locations.push({
+                    filePath: feature.filePath || 'unknown',
+                    line: feature.range.start.line + 1,
+                    column: feature.range.start.character + 1,
+                    context: feature.context
+                });
+            }
+
+            const changes: FeatureDataChange[] = [];
+            for (const [featureId, usage] of usages) {
+                const change = this.compareFeatureData(
+                    featureId,
+                    this.getDatasetStatus(previousData, featureId),
+                    this.getDatasetStatus(currentData, featureId)
+                );
+                if (change) {
+                    changes.push({ ...change, name: usage.name, locations: usage.locations });
+                }
+            }
+
+            const sectionOrder = DATA_CHANGE_SECTIONS.map(section => section.type);
+            changes.sort((a, b) =>
+                sectionOrder.indexOf(a.changeType) - sectionOrder.indexOf(b.changeType) || a.name.localeCompare(b.name)
+            );
+
+            progressCallback?.(100, 'Comparison complete!');
+
+            return {
+                previousData: previousData.getDataVersion(),
+                currentData: currentData.getDataVersion(),
+                changes,
+                unchangedFeatures: usages.size - changes.length,
+                generatedAt: new Date(),
+                projectPath: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '',
+                analyzedFiles: projectResult.analyzedFiles
+            };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to generate data update report: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Export a data update report in the specified format
+     */
+    exportDataUpdateReport(report: DataUpdateReport, format: 'json' | 'markdown'): string {
+        switch (format) {
+            case 'json':
+                return JSON.stringify(report, null, 2);
+            case 'markdown':
+                return this.exportDataUpdateAsMarkdown(report);
+            default:
+                throw new Error(`Unsupported export format: ${format}`);
+        }
+    }
+
+    /**
+     * Classify how a feature's data changed, or return null if it did not
+     */
+    compareFeatureData(
+        featureId: string,
+        previous: BaselineStatus | null,
+        current: BaselineStatus | null
+    ): Omit<FeatureDataChange, 'name' | 'locations'> | null {
+        if (!previous && !current) {
+            return null;
+        }
+
+        const supportChanges = this.compareSupport(previous, current);
+        const change = {
+            featureId,
+            previousStatus: previous?.status,
+            currentStatus: current?.status,
+            previousLowDate: previous?.low_date,
+            currentLowDate: current?.low_date,
+            previousHighDate: previous?.high_date,
+            currentHighDate: current?.high_date,
+            supportChanges
+        };
+
+        let changeType: FeatureDataChangeType | null = null;
+        if (!previous) {
+            changeType = 'added';
+        } else if (!current) {
+            changeType = 'removed';
+        } else if (previous.status !== current.status) {
+            const statusRank = ['limited_availability', 'newly_available', 'widely_available'];
+            changeType = statusRank.indexOf(current.status) > statusRank.indexOf(previous.status) ? 'status_upgrade' : 'status_downgrade';
+        } else if (supportChanges.some(supportChange => this.isSupportRegression(supportChange))) {
+            changeType = 'support_regression';
+        } else if (previous.low_date !== current.low_date || previous.high_date !== current.high_date) {
+            changeType = 'date_change';
+        } else if (supportChanges.length > 0) {
+            changeType = 'support_change';
+        }
+
+        return changeType ? { ...change, changeType } : null;
+    }
+
+    /**
+     * Look up a feature the same way the analyzers do: the web feature's
+     * official status first, then one computed from BCD, with the per-browser
+     * support of the feature's own BCD entry where it has one. BCD keys share
+     * the status of their web feature, so support changes only show in BCD.
+     */
+    getDatasetStatus(data: CompatibilityDataService, featureId: string): BaselineStatus | null {
+        const status = data.getFeatureStatus(featureId) || data.getBCDStatus(featureId);
+        if (!status) {
+            return null;
+        }
+
+        const bcdSupport = data.getBCDStatus(featureId)?.support;
+        return bcdSupport ? { ...status, support: { ...status.support, ...bcdSupport } } : status;
+    }
+
+    private compareSupport(previous: BaselineStatus | null, current: BaselineStatus | null): BrowserSupportChange[] {
+        const previousSupport = previous?.support || {};
+        const currentSupport = current?.support || {};
+        const browsers = new Set([...Object.keys(previousSupport), ...Object.keys(currentSupport)]);
+        const changes: BrowserSupportChange[] = [];
+
+        for (const browser of browsers) {
+            const previousVersion = previousSupport[browser]?.version_added ?? null;
+            const currentVersion = currentSupport[browser]?.version_added ?? null;
+            if (previousVersion !== currentVersion) {
+                changes.push({ browser, previous: previousVersion, current: currentVersion });
+            }
+        }
+
+        return changes.sort((a, b) => a.browser.localeCompare(b.browser));
+    }
+
+    /**
+     * A regression is support that disappeared or moved to a later version
+     */
+    private isSupportRegression(change: BrowserSupportChange): boolean {
+        const wasSupported = change.previous === true || typeof change.previous === 'string';
+        const isSupported = change.current === true || typeof change.current === 'string';
+
+        if (wasSupported && !isSupported) {
+            return true;
+        }
+        if (typeof change.previous === 'string' && typeof change.current === 'string') {
+            return compareBrowserVersions(change.current.replace('≤', ''), change.previous.replace('≤', '')) > 0;
+        }
+        return false;
+    }
+
     /**
      * Process detected features into usage information
      */
@@ -111,7 +300,9 @@ export class ReportGenerator {
                     feature: featureDetails,
                     locations: [],
                     riskLevel: this.calculateRiskLevel(feature.baselineStatus.status),
-                    usageCount: 0
+                    usageCount: 0,
+                    supportedAudience: feature.audienceSupport?.percentage,
+                    browserSupport: this.getBrowserSupportSummary(feature)
                 });
             }
 
@@ -128,6 +319,23 @@ export class ReportGenerator {
         return featureUsageMap;
     }
 
+    /**
+     * Summarize the version each core browser supports a feature from, with
+     * false for browsers whose only support does not count
+     */
+    private getBrowserSupportSummary(feature: DetectedFeature): { [browser: string]: string | boolean | null } {
+        const summary: { [browser: string]: string | boolean | null } = {};
+
+        for (const browser of this.compatibilityService.getCoreBrowsers()) {
+            const support = this.compatibilityService.getBrowserSupport(feature.id, feature.baselineStatus, browser);
+            summary[browser] = support
+                ? (this.compatibilityService.isUnqualifiedSupport(support) ? support.version_added : false)
+                : null;
+        }
+
+        return summary;
+    }
+
     /**
      * Calculate risk level based on baseline status
      */
@@ -220,6 +428,14 @@ export class ReportGenerator {
             }
         }
 
+        // Support threshold recommendations
+        const belowThreshold = features.filter(f => f.supportedAudience !== undefined && f.supportedAudience < this.compatibilityService.getSupportThreshold());
+        if (belowThreshold.length > 0) {
+            recommendations.push(
+                `📉 Found ${belowThreshold.length} features supported by less than ${this.compatibilityService.getSupportThreshold()}% of global users.`
+            );
+        }
+
         // Medium-risk features recommendations
         const mediumRiskFeatures = features.filter(f => f.riskLevel === 'medium');
         if (mediumRiskFeatures.length > 0) {
@@ -321,13 +537,13 @@ export class ReportGenerator {
         if (highRiskFeatures.length > 0) {
             lines.push('## High-Risk Features');
             lines.push('');
-            lines.push('| Feature | Usage Count | Status | Description |');
-            lines.push('|---------|-------------|--------|-------------|');
+            lines.push('| Feature | Usage Count | Status | Global Support | Description |');
+            lines.push('|---------|-------------|--------|----------------|-------------|');
             
             for (const feature of highRiskFeatures.sort((a, b) => b.usageCount - a.usageCount)) {
                 const description = feature.feature.description || 'No description available';
                 const truncatedDesc = description.length > 50 ? description.substring(0, 47) + '...' : description;
-                lines.push(`| ${feature.feature.name} | ${feature.usageCount} | Limited | ${truncatedDesc} |`);
+                lines.push(`| ${feature.feature.name} | ${feature.usageCount} | Limited | ${this.formatAudience(feature.supportedAudience)} | ${truncatedDesc} |`);
             }
             lines.push('');
         }
@@ -337,8 +553,8 @@ export class ReportGenerator {
         if (mediumRiskFeatures.length > 0) {
             lines.push('## Newly Available Features (Top 10)');
             lines.push('');
-            lines.push('| Feature | Usage Count | Description |');
-            lines.push('|---------|-------------|-------------|');
+            lines.push('| Feature | Usage Count | Global Support | Description |');
+            lines.push('|---------|-------------|----------------|-------------|');
             
             const topMediumRisk = mediumRiskFeatures
                 .sort((a, b) => b.usageCount - a.usageCount)
@@ -347,7 +563,23 @@ export class ReportGenerator {
             for (const feature of topMediumRisk) {
                 const description = feature.feature.description || 'No description available';
                 const truncatedDesc = description.length > 50 ? description.substring(0, 47) + '...' : description;
-                lines.push(`| ${feature.feature.name} | ${feature.usageCount} | ${truncatedDesc} |`);
+                lines.push(`| ${feature.feature.name} | ${feature.usageCount} | ${this.formatAudience(feature.supportedAudience)} | ${truncatedDesc} |`);
+            }
+            lines.push('');
+        }
+
+        // Browser support for the features above, across the configured core browsers
+        const browserSupportFeatures = [...highRiskFeatures, ...mediumRiskFeatures.slice(0, 10)].filter(f => f.browserSupport);
+        if (browserSupportFeatures.length > 0) {
+            const browsers = this.compatibilityService.getCoreBrowsers();
+            lines.push('## Browser Support');
+            lines.push('');
+            lines.push(`| Feature | ${browsers.map(browser => this.compatibilityService.getBrowserName(browser)).join(' | ')} |`);
+            lines.push(`|---------|${browsers.map(() => '---').join('|')}|`);
+
+            for (const feature of browserSupportFeatures) {
+                const versions = browsers.map(browser => this.formatSupportVersion(feature.browserSupport![browser] ?? null));
+                lines.push(`| ${feature.feature.name} | ${versions.join(' | ')} |`);
             }
             lines.push('');
         }
@@ -373,6 +605,118 @@ export class ReportGenerator {
         return lines.join('\n');
     }
 
+    /**
+     * Export a data update report as Markdown
+     */
+    private exportDataUpdateAsMarkdown(report: DataUpdateReport): string {
+        const lines: string[] = [];
+
+        lines.push('# Baseline Lens Data Update Impact');
+        lines.push('');
+        lines.push(`**Generated:** ${report.generatedAt.toLocaleString()}`);
+        lines.push(`**Project:** ${path.basename(report.projectPath)}`);
+        lines.push(`**Files Analyzed:** ${report.analyzedFiles}`);
+        lines.push('');
+
+        lines.push('## Data Versions');
+        lines.push('');
+        lines.push('| | Previous | Current |');
+        lines.push('|---|----------|---------|');
+        lines.push(`| Source | ${this.formatDataSource(report.previousData)} | ${this.formatDataSource(report.currentData)} |`);
+        lines.push(`| web-features | ${report.previousData.webFeatures} | ${report.currentData.webFeatures} |`);
+        lines.push(`| browser-compat-data | ${report.previousData.bcd} | ${report.currentData.bcd} |`);
+        lines.push('');
+
+        lines.push('## Summary');
+        lines.push('');
+        lines.push(`- **Changed Features:** ${report.changes.length}`);
+        lines.push(`- **Unchanged Features:** ${report.unchangedFeatures}`);
+        for (const section of DATA_CHANGE_SECTIONS) {
+            const count = report.changes.filter(change => change.changeType === section.type).length;
+            if (count > 0) {
+                lines.push(`- **${section.title}:** ${count}`);
+            }
+        }
+        lines.push('');
+
+        if (report.changes.length === 0) {
+            lines.push('No features used in this workspace changed between the two datasets.');
+            lines.push('');
+        }
+
+        for (const section of DATA_CHANGE_SECTIONS) {
+            const sectionChanges = report.changes.filter(change => change.changeType === section.type);
+            if (sectionChanges.length === 0) {
+                continue;
+            }
+
+            lines.push(`## ${section.title}`);
+            lines.push('');
+
+            for (const change of sectionChanges) {
+                lines.push(`### ${change.name} (\`${change.featureId}\`)`);
+                lines.push('');
+                lines.push(`- **Status:** ${this.formatStatusChange(change.previousStatus, change.currentStatus)}`);
+                if (change.previousLowDate !== change.currentLowDate) {
+                    lines.push(`- **Newly Available:** ${change.previousLowDate || 'None'} → ${change.currentLowDate || 'None'}`);
+                }
+                if (change.previousHighDate !== change.currentHighDate) {
+                    lines.push(`- **Widely Available:** ${change.previousHighDate || 'None'} → ${change.currentHighDate || 'None'}`);
+                }
+                if (change.supportChanges.length > 0) {
+                    const supportChanges = change.supportChanges.map(supportChange =>
+                        `${supportChange.browser} ${this.formatSupportVersion(supportChange.previous)} → ${this.formatSupportVersion(supportChange.current)}`
+                    );
+                    lines.push(`- **Support:** ${supportChanges.join(', ')}`);
+                }
+                lines.push(`- **Locations (${change.locations.length}):**`);
+                for (const location of change.locations) {
+                    const relativePath = report.projectPath ? path.relative(report.projectPath, location.filePath) : location.filePath;
+                    lines.push(`  - \`${relativePath}:${location.line}:${location.column}\``);
+                }
+                lines.push('');
+            }
+        }
+
+        lines.push('---');
+        lines.push('*Generated by Baseline Lens - Web Feature Compatibility Analysis*');
+
+        return lines.join('\n');
+    }
+
+    private formatDataSource(version: DataUpdateReport['currentData']): string {
+        return version.source === 'snapshot' ? `Snapshot (${version.snapshotPath})` : 'Bundled';
+    }
+
+    private formatStatusChange(previous?: BaselineStatus['status'], current?: BaselineStatus['status']): string {
+        const labels: { [status: string]: string } = {
+            widely_available: 'Widely Available',
+            newly_available: 'Newly Available',
+            limited_availability: 'Limited Availability'
+        };
+        const previousLabel = previous ? labels[previous] : 'No data';
+        const currentLabel = current ? labels[current] : 'No data';
+
+        return previous === current ? currentLabel : `${previousLabel} → ${currentLabel}`;
+    }
+
+    private formatSupportVersion(version: string | boolean | null): string {
+        if (version === true) {
+            return 'Yes';
+        }
+        if (version === false || version === null) {
+            return 'No';
+        }
+        return version;
+    }
+
+    /**
+     * Format a supported audience percentage for report tables
+     */
+    private formatAudience(supportedAudience?: number): string {
+        return supportedAudience === undefined ? 'Unknown' : `${supportedAudience}%`;
+    }
+
     /**
      * Calculate percentage with 1 decimal place
      */
@@ -10,6 +10,7 @@ export class UIService {
     private diagnosticCollection: vscode.DiagnosticCollection;
     private decorationTypes: Map<string, vscode.TextEditorDecorationType>;
     private activeDecorations: Map<string, vscode.DecorationOptions[]>;
+    private compatibilityService: CompatibilityDataService;
     private hoverProvider: HoverProvider;
     private hoverProviderDisposable: vscode.Disposable | undefined;
     private suggestionEngine: SuggestionEngine;
@@ -22,6 +23,7 @@ export class UIService {
         this.diagnosticCollection = vscode.languages.createDiagnosticCollection('baseline-lens');
         this.decorationTypes = new Map();
         this.activeDecorations = new Map();
+        this.compatibilityService = compatibilityService;
         this.hoverProvider = new HoverProvider(compatibilityService);
         this.suggestionEngine = new SuggestionEngine(compatibilityService);
         this.codeActionProvider = new BaselineLensCodeActionProvider(this.suggestionEngine);
@@ -69,7 +71,7 @@ export class UIService {
      */
     private registerHoverProvider(): void {
         const supportedLanguages = [
-            'css', 'scss', 'less', 'sass',
+            'css', 'scss', 'less', 'sass', 'stylus',
             'javascript', 'typescript', 'javascriptreact', 'typescriptreact',
             'html', 'vue', 'svelte'
         ];
@@ -85,7 +87,7 @@ export class UIService {
      */
     private registerCodeActionProvider(): void {
         const supportedLanguages = [
-            'css', 'scss', 'less', 'sass',
+            'css', 'scss', 'less', 'sass', 'stylus',
             'javascript', 'typescript', 'javascriptreact', 'typescriptreact',
             'html', 'vue', 'svelte'
         ];
@@ -106,12 +108,46 @@ export class UIService {
      * Convert detected features to VS Code diagnostics
      */
     createDiagnosticsFromFeatures(features: DetectedFeature[]): vscode.Diagnostic[] {
-        return features.map(feature => this.createDiagnostic(feature));
+        // Guarded features are hidden when their category is mapped to 'none'
+        const hideGuarded = features.some(feature => feature.guard) &&
+            this.configurationService.getDiagnosticSeverity('guarded') === null;
+
+        return features
+            .filter(feature => !(hideGuarded && feature.guard))
+            .map(feature => this.createDiagnostic(feature));
     }
 
     private createDiagnostic(feature: DetectedFeature): vscode.Diagnostic {
-        const severity = this.mapSeverity(feature.baselineStatus.status, feature.severity);
-        const message = this.createDiagnosticMessage(feature);
+        // Deprecated and non-standard features are their own category, unless it is mapped to 'none'
+        const standardStatus = this.compatibilityService.describeStandardStatus(feature.standardStatus);
+        const deprecatedSeverity = standardStatus ? this.configurationService.getDiagnosticSeverity('deprecated') : null;
+        // Features behind a matching feature check only run where they are supported
+        const guardedSeverity = feature.guard ? this.configurationService.getDiagnosticSeverity('guarded') : null;
+
+        // Redundant vendor prefixes are clean-up hints rather than compatibility problems
+        const redundantPrefix = feature.vendorPrefix?.kind === 'redundant';
+
+        // Higher DiagnosticSeverity values are less severe. Deprecation never hides a
+        // compatibility problem, and a guard only ever lowers the severity.
+        const compatibilitySeverity = this.mapSeverity(feature);
+        const unguardedSeverity = deprecatedSeverity !== null ? Math.min(deprecatedSeverity, compatibilitySeverity) : compatibilitySeverity;
+        const severity = redundantPrefix
+            ? vscode.DiagnosticSeverity.Information
+            : guardedSeverity !== null ? Math.max(guardedSeverity, unguardedSeverity) : unguardedSeverity;
+        let message = redundantPrefix
+            ? this.createVendorPrefixMessage(feature)
+            : deprecatedSeverity !== null
+                ? this.createDeprecationMessage(feature, standardStatus!)
+                : this.createDiagnosticMessage(feature);
+        if (!redundantPrefix && deprecatedSeverity !== null && compatibilitySeverity < deprecatedSeverity) {
+            message += ` ${this.createDiagnosticMessage(feature)}`;
+        }
+        if (feature.vendorPrefix?.kind === 'missing') {
+            message += `. ${this.createVendorPrefixMessage(feature)}`;
+        }
+        if (feature.guard) {
+            message += ` (guarded by ${feature.guard.description})`;
+        }
         
         const diagnostic = new vscode.Diagnostic(
             feature.range,
@@ -121,6 +157,12 @@ export class UIService {
 
         diagnostic.source = 'baseline-lens';
         diagnostic.code = feature.id;
+
+        if (redundantPrefix) {
+            diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+        } else if (deprecatedSeverity !== null) {
+            diagnostic.tags = [vscode.DiagnosticTag.Deprecated];
+        }
         
         // Add related information for context
         if (feature.context) {
@@ -136,6 +178,30 @@ export class UIService {
     }
 
     private createDiagnosticMessage(feature: DetectedFeature): string {
+        const failingTargets = (feature.targetSupport || []).filter(result => !result.supported);
+        if (failingTargets.length > 0) {
+            const targets = failingTargets.map(result => {
+                const browserName = this.compatibilityService.getBrowserName(result.browser);
+                const added = result.caveat && !result.supported
+                    ? ` (${result.caveat})`
+                    : typeof result.versionAdded === 'string' ? ` (added in ${result.versionAdded})` : '';
+                return `${browserName} ${result.targetVersion}${added}`;
+            });
+            let targetMessage = `${feature.name} is not supported by target browsers: ${targets.join(', ')}`;
+            if (feature.context) {
+                targetMessage += ` - ${feature.context}`;
+            }
+            return targetMessage;
+        }
+
+        if (feature.baselineTarget) {
+            let targetMessage = this.createBaselineTargetMessage(feature);
+            if (feature.context) {
+                targetMessage += ` - ${feature.context}`;
+            }
+            return targetMessage;
+        }
+
         const statusText = this.getStatusText(feature.baselineStatus.status);
         let message = `${feature.name} has ${statusText} browser support`;
         
@@ -148,6 +214,15 @@ export class UIService {
             message += ` - ${feature.context}`;
         }
 
+        const caveats = this.describeSupportCaveats(feature);
+        if (caveats) {
+            message += `. ${caveats}`;
+        }
+
+        if (feature.audienceSupport && !feature.audienceSupport.meetsThreshold) {
+            message += `. Supported by ${feature.audienceSupport.percentage}% of global users, below the ${feature.audienceSupport.threshold}% threshold`;
+        }
+
         // Add suggestion hint for risky features
         if (feature.baselineStatus.status === 'newly_available') {
             message += '. Consider providing fallbacks for older browsers.';
@@ -158,6 +233,77 @@ export class UIService {
         return message;
     }
 
+    /**
+     * Describe a vendor prefix issue, e.g. "-webkit-appearance is not needed by
+     * the target browsers, use appearance" or "Add -webkit-user-select for Safari"
+     */
+    private createVendorPrefixMessage(feature: DetectedFeature): string {
+        const vendorPrefix = feature.vendorPrefix!;
+        if (vendorPrefix.kind === 'redundant') {
+            return `${vendorPrefix.prefixes[0]}${vendorPrefix.property} is not needed by the target browsers, use ${vendorPrefix.property}`;
+        }
+
+        const browsers = [...new Set(vendorPrefix.browsers)].map(browser => this.compatibilityService.getBrowserName(browser));
+        return `Add ${vendorPrefix.prefixes.map(prefix => prefix + vendorPrefix.property).join(', ')} for ${browsers.join(', ')}`;
+    }
+
+    /**
+     * Describe a deprecated or non-standard feature, e.g.
+     * "document.execCommand is deprecated. Avoid it in new code"
+     */
+    private createDeprecationMessage(feature: DetectedFeature, standardStatus: string): string {
+        let message = `${feature.name} is ${standardStatus}`;
+        if (feature.context) {
+            message += ` - ${feature.context}`;
+        }
+
+        message += feature.standardStatus!.deprecated
+            ? '. Avoid it in new code and migrate existing usage.'
+            : '. It is not on a standards track and may behave differently or be removed across browsers.';
+
+        return message;
+    }
+
+    /**
+     * Explain support that exists but does not count, e.g.
+     * "Safari only with the -webkit- prefix since 4"
+     */
+    private describeSupportCaveats(feature: DetectedFeature): string {
+        const caveats: string[] = [];
+
+        for (const [browser, support] of Object.entries(feature.baselineStatus.support || {})) {
+            if (this.compatibilityService.isUnqualifiedSupport(support)) {
+                continue;
+            }
+            const caveat = this.compatibilityService.describeSupportCaveat(support);
+            if (caveat) {
+                caveats.push(`${this.compatibilityService.getBrowserName(browser)} ${caveat}`);
+            }
+        }
+
+        return caveats.join('; ');
+    }
+
+    /**
+     * Describe a feature in terms of the configured Baseline target, e.g.
+     * "grid became Baseline in 2020, within the Baseline 2022 target"
+     */
+    private createBaselineTargetMessage(feature: DetectedFeature): string {
+        const result = feature.baselineTarget!;
+        if (!result.date) {
+            return `${feature.name} is not Baseline yet, outside the ${result.label} target`;
+        }
+
+        const position = result.meetsTarget ? 'within' : 'outside';
+        if (result.target.mode === 'year') {
+            return `${feature.name} became Baseline in ${result.date.slice(0, 4)} (${result.date}), ${position} the ${result.label} target`;
+        }
+
+        const today = new Date().toISOString().slice(0, 10);
+        const verb = result.date <= today ? 'became' : 'becomes';
+        return `${feature.name} ${verb} widely available on ${result.date}, ${position} the ${result.label} target`;
+    }
+
     private getStatusText(status: string): string {
         switch (status) {
             case 'widely_available':
@@ -171,27 +317,51 @@ export class UIService {
         }
     }
 
-    private mapSeverity(baselineStatus: string, featureSeverity: string): vscode.DiagnosticSeverity {
+    private mapSeverity(feature: DetectedFeature): vscode.DiagnosticSeverity {
+        // A configured browser matrix or Baseline target takes precedence over the Baseline status
+        const targetSupport = feature.targetSupport || [];
+        if (targetSupport.length > 0 || feature.baselineTarget) {
+            const meetsTargets = targetSupport.every(result => result.supported) && (!feature.baselineTarget || feature.baselineTarget.meetsTarget);
+            return meetsTargets
+                ? vscode.DiagnosticSeverity.Information
+                : vscode.DiagnosticSeverity.Error;
+        }
+
         // Map baseline status to VS Code diagnostic severity
-        switch (baselineStatus) {
+        let severity: vscode.DiagnosticSeverity;
+        switch (feature.baselineStatus.status) {
             case 'widely_available':
-                return vscode.DiagnosticSeverity.Information;
+                severity = vscode.DiagnosticSeverity.Information;
+                break;
             case 'newly_available':
-                return vscode.DiagnosticSeverity.Warning;
+                severity = vscode.DiagnosticSeverity.Warning;
+                break;
             case 'limited_availability':
-                return vscode.DiagnosticSeverity.Error;
+                severity = vscode.DiagnosticSeverity.Error;
+                break;
             default:
                 // Fallback to feature severity
-                switch (featureSeverity) {
+                switch (feature.severity) {
                     case 'error':
-                        return vscode.DiagnosticSeverity.Error;
+                        severity = vscode.DiagnosticSeverity.Error;
+                        break;
                     case 'warning':
-                        return vscode.DiagnosticSeverity.Warning;
+                        severity = vscode.DiagnosticSeverity.Warning;
+                        break;
                     case 'info':
                     default:
-                        return vscode.DiagnosticSeverity.Information;
+                        severity = vscode.DiagnosticSeverity.Information;
                 }
         }
+
+        // Features used by fewer users than the support threshold are escalated one level
+        if (feature.audienceSupport && !feature.audienceSupport.meetsThreshold) {
+            severity = severity === vscode.DiagnosticSeverity.Information
+                ? vscode.DiagnosticSeverity.Warning
+                : vscode.DiagnosticSeverity.Error;
+        }
+
+        return severity;
     }
 
     /**
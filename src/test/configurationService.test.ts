@@ -21,7 +21,7 @@ suite('ConfigurationService Tests', () => {
         assert.strictEqual(config.supportThreshold, 90);
         assert.strictEqual(config.showInlineIndicators, true);
         assert.strictEqual(config.diagnosticSeverity, 'warning');
-        assert.deepStrictEqual(config.enabledFileTypes, ['css', 'scss', 'less', 'javascript', 'typescript', 'html', 'vue', 'svelte']);
+        assert.deepStrictEqual(config.enabledFileTypes, ['css', 'scss', 'sass', 'less', 'stylus', 'javascript', 'typescript', 'javascriptreact', 'typescriptreact', 'html', 'vue', 'svelte']);
         assert.deepStrictEqual(config.excludePatterns, ['**/node_modules/**', '**/dist/**', '**/build/**']);
     });
 
@@ -83,6 +83,14 @@ suite('ConfigurationService Tests', () => {
         assert.ok(errors.some(e => e.includes('Invalid browser specification')));
     });
 
+    test('should reject unknown core browsers', () => {
+        const errors = configService.validateConfiguration({
+            coreBrowsers: ['chrome', 'samsunginternet_android', 'webview_android', 'netscape']
+        });
+
+        assert.deepStrictEqual(errors, ['Unknown browser: netscape']);
+    });
+
     test('should validate browser specifications', () => {
         const validSpecs = [
             'chrome >= 90',
@@ -110,6 +118,67 @@ suite('ConfigurationService Tests', () => {
         }
     });
 
+    test('should parse browser specifications into targets', () => {
+        const targets = configService.parseBrowserSpecs(['safari >= 15', 'Chrome >= 100', 'ios >= 15.4', 'android >= 90', 'invalid-spec']);
+
+        assert.deepStrictEqual(targets, [
+            { browser: 'safari', version: '15' },
+            { browser: 'chrome', version: '100' },
+            { browser: 'safari_ios', version: '15.4' },
+            { browser: 'webview_android', version: '90' }
+        ]);
+    });
+
+    test('should resolve each browser specification operator', () => {
+        assert.deepStrictEqual(configService.parseBrowserSpecs(['chrome >= 100']), [{ browser: 'chrome', version: '100' }]);
+        assert.deepStrictEqual(configService.parseBrowserSpecs(['chrome > 100']), [{ browser: 'chrome', version: '101' }]);
+        assert.deepStrictEqual(configService.parseBrowserSpecs(['chrome = 100']), [{ browser: 'chrome', version: '100' }]);
+        assert.deepStrictEqual(configService.parseBrowserSpecs(['ios > 15.4']), [{ browser: 'safari_ios', version: '15.5' }]);
+
+        // Supporting every release up to a version means supporting the oldest one
+        assert.deepStrictEqual(configService.parseBrowserSpecs(['chrome < 100']), [{ browser: 'chrome', version: '4' }]);
+        assert.deepStrictEqual(configService.parseBrowserSpecs(['chrome <= 100']), [{ browser: 'chrome', version: '4' }]);
+    });
+
+    test('should reject browser specifications that select no known version', () => {
+        assert.deepStrictEqual(configService.parseBrowserSpecs(['chrome > 9999', 'edge < 12']), []);
+        assert.deepStrictEqual(
+            configService.validateConfiguration({ customBrowserMatrix: ['chrome > 9999'] }),
+            ['Invalid browser specification: chrome > 9999']
+        );
+    });
+
+    test('should resolve browserslist queries into BCD browser targets', () => {
+        const targets = configService.resolveBrowserslistQueries(['safari >= 15', 'ios_saf >= 15']);
+
+        assert.ok(targets.some(t => t.browser === 'safari' && t.version === '15'));
+        assert.ok(targets.some(t => t.browser === 'safari_ios'));
+        assert.ok(targets.every(t => /^\d/.test(t.version)));
+    });
+
+    test('should ignore invalid browserslist queries', () => {
+        assert.deepStrictEqual(configService.resolveBrowserslistQueries(['not a real query']), []);
+        const errors = configService.validateConfiguration({ browserslist: ['not a real query'] });
+        assert.ok(errors.some(e => e.includes('Invalid browserslist query')));
+    });
+
+    test('should parse Baseline targets', () => {
+        assert.deepStrictEqual(configService.parseBaselineTarget('2022'), { mode: 'year', year: 2022 });
+        assert.deepStrictEqual(configService.parseBaselineTarget('Baseline 2022'), { mode: 'year', year: 2022 });
+        assert.deepStrictEqual(configService.parseBaselineTarget('widely available'), { mode: 'widely_available' });
+        assert.deepStrictEqual(
+            configService.parseBaselineTarget('widely available on 2024-06-01'),
+            { mode: 'widely_available', date: '2024-06-01' }
+        );
+        assert.strictEqual(configService.parseBaselineTarget(''), null);
+        assert.strictEqual(configService.parseBaselineTarget('next year'), null);
+    });
+
+    test('should reject invalid Baseline targets', () => {
+        const errors = configService.validateConfiguration({ baselineTarget: 'next year' });
+        assert.ok(errors.some(e => e.includes('Invalid Baseline target')));
+    });
+
     test('should export team configuration', async () => {
         const exportedConfig = await configService.exportTeamConfiguration();
         const teamConfig: TeamConfig = JSON.parse(exportedConfig);
@@ -85,6 +85,14 @@ suite('CompatibilityDataService Test Suite', () => {
                 assert.ok(typeof status!.support === 'object');
             }
         });
+
+        test('should resolve BCD keys to their web feature status', () => {
+            assert.strictEqual(service.getWebFeatureId('css.properties.display.grid'), 'grid');
+
+            const status = service.getFeatureStatus('css.properties.display.grid');
+            assert.deepStrictEqual(status, service.getFeatureStatus('grid'));
+            assert.deepStrictEqual(status!.support.chrome, { version_added: '66' });
+        });
     });
 
     suite('Feature Search', () => {
@@ -131,6 +139,20 @@ suite('CompatibilityDataService Test Suite', () => {
             assert.ok(stats.totalFeatures > 0, 'Should have features loaded');
         });
 
+        test('should rank exact ID matches first', () => {
+            const results = service.searchFeatures('grid');
+            assert.strictEqual(results[0].id, 'grid');
+        });
+
+        test('should match characters in order for fuzzy queries', () => {
+            const results = service.searchFeatures('cntnrq');
+            assert.ok(results.some(feature => feature.id === 'container-queries'), 'Should find container queries');
+        });
+
+        test('should return every feature for an empty query', () => {
+            assert.strictEqual(service.searchFeatures('').length, service.getCacheStats().totalFeatures);
+        });
+
         test('should be case insensitive', () => {
             const results1 = service.searchFeatures('CSS');
             const results2 = service.searchFeatures('css');
@@ -181,6 +203,299 @@ suite('CompatibilityDataService Test Suite', () => {
                 }
             }
         });
+
+        test('should return web feature details for BCD keys', () => {
+            const details = service.getFeatureDetails('css.selectors.has');
+
+            assert.ok(details, 'Should resolve the BCD key through compat_features');
+            assert.strictEqual(details!.name, ':has()');
+            assert.ok(details!.spec_url, 'Should include the spec link');
+        });
+    });
+
+    suite('Baseline Calculation', () => {
+        setup(async () => {
+            await service.initialize();
+        });
+
+        test('should date Baseline by the last core browser release', () => {
+            const status = service.getBCDStatus('css.properties.display.grid')!;
+
+            assert.strictEqual(status.status, 'widely_available');
+            assert.strictEqual(status.low_date, '2017-10-17');
+            assert.strictEqual(status.high_date, '2020-04-17');
+        });
+
+        test('should set the high date 30 months after the low date', () => {
+            const status = service.getBCDStatus('javascript.builtins.Array.at')!;
+
+            assert.strictEqual(status.low_date, '2022-03-14');
+            assert.strictEqual(status.high_date, '2024-09-14');
+        });
+
+        test('should match the low dates published by web-features', () => {
+            // Features whose web-features status comes from this single BCD key
+            const keys = [
+                'html.elements.dialog',
+                'api.structuredClone',
+                'api.IntersectionObserver',
+                'javascript.builtins.Array.findLast',
+                'javascript.builtins.Object.groupBy',
+                'css.selectors.has',
+                'css.at-rules.container'
+            ];
+
+            for (const key of keys) {
+                const computed = service.getBCDStatus(key)!;
+                const published = service.getFeatureStatus(key)!;
+
+                assert.strictEqual(computed.low_date, published.low_date, `Low date of ${key}`);
+                assert.strictEqual(computed.status, 'widely_available', `Status of ${key}`);
+            }
+        });
+
+        test('should report limited availability when a core browser lacks support', () => {
+            const status = service.getBCDStatus('api.Navigator.share')!;
+
+            assert.strictEqual(status.status, 'limited_availability');
+            assert.strictEqual(status.low_date, undefined);
+            assert.strictEqual(status.high_date, undefined);
+        });
+
+        test('should require support in every configured core browser', () => {
+            assert.strictEqual(service.getBCDStatus('api.AuthenticatorResponse')!.status, 'widely_available');
+
+            service.setCoreBrowsers([...service.getCoreBrowsers(), 'webview_android']);
+            const status = service.getBCDStatus('api.AuthenticatorResponse')!;
+
+            assert.strictEqual(status.status, 'limited_availability');
+            assert.ok('webview_android' in status.support);
+        });
+
+        test('should fall back to the Baseline core browsers when none are configured', () => {
+            service.setCoreBrowsers([]);
+
+            assert.deepStrictEqual(service.getCoreBrowsers(), [
+                'chrome', 'chrome_android', 'edge', 'firefox', 'firefox_android', 'safari', 'safari_ios'
+            ]);
+        });
+    });
+
+    suite('Browser Targets', () => {
+        setup(async () => {
+            await service.initialize();
+        });
+
+        test('should return no results without targets', () => {
+            const status = service.getBCDStatus('css.selectors.has')!;
+            assert.deepStrictEqual(service.evaluateBrowserTargets('css.selectors.has', status), []);
+        });
+
+        test('should fail targets older than the version that added the feature', () => {
+            service.setBrowserTargets([{ browser: 'safari', version: '15' }]);
+            const status = service.getBCDStatus('css.selectors.has')!;
+            const [result] = service.evaluateBrowserTargets('css.selectors.has', status);
+
+            assert.strictEqual(result.browser, 'safari');
+            assert.strictEqual(result.targetVersion, '15');
+            assert.strictEqual(result.supported, false);
+        });
+
+        test('should pass targets at or after the version that added the feature', () => {
+            service.setBrowserTargets([
+                { browser: 'safari', version: '16' },
+                { browser: 'chrome', version: '105' }
+            ]);
+            const status = service.getBCDStatus('css.selectors.has')!;
+            const results = service.evaluateBrowserTargets('css.selectors.has', status);
+
+            assert.strictEqual(results.length, 2);
+            assert.ok(results.every(result => result.supported));
+        });
+
+        test('should check browsers outside the major desktop set', () => {
+            service.setBrowserTargets([{ browser: 'safari_ios', version: '15' }]);
+            const status = service.getBCDStatus('css.selectors.has')!;
+            const [result] = service.evaluateBrowserTargets('css.selectors.has', status);
+
+            assert.strictEqual(typeof result.versionAdded, 'string');
+            assert.strictEqual(result.supported, false);
+        });
+    });
+
+    suite('Baseline Targets', () => {
+        setup(async () => {
+            await service.initialize();
+        });
+
+        teardown(() => {
+            service.setBaselineTarget(null);
+        });
+
+        test('should not evaluate features without a Baseline target', () => {
+            const status = service.getFeatureStatus('grid')!;
+            assert.strictEqual(service.evaluateBaselineTarget(status), undefined);
+        });
+
+        test('should compare the newly available year with year targets', () => {
+            service.setBaselineTarget({ mode: 'year', year: 2022 });
+
+            const grid = service.evaluateBaselineTarget(service.getFeatureStatus('grid')!)!;
+            assert.strictEqual(grid.meetsTarget, true);
+            assert.strictEqual(grid.label, 'Baseline 2022');
+
+            const share = service.evaluateBaselineTarget(service.getBCDStatus('api.Navigator.share')!)!;
+            assert.strictEqual(share.meetsTarget, false);
+            assert.strictEqual(share.date, undefined);
+        });
+
+        test('should compare the widely available date with date targets', () => {
+            const status = service.getFeatureStatus('grid')!;
+
+            service.setBaselineTarget({ mode: 'widely_available', date: '2024-01-01' });
+            assert.strictEqual(service.evaluateBaselineTarget(status)!.meetsTarget, true);
+
+            service.setBaselineTarget({ mode: 'widely_available', date: '2022-01-01' });
+            assert.strictEqual(service.evaluateBaselineTarget(status)!.meetsTarget, false);
+        });
+    });
+
+    suite('Support Caveats', () => {
+        setup(async () => {
+            await service.initialize();
+        });
+
+        test('should not count prefixed, flagged, removed or partial support', () => {
+            assert.strictEqual(service.isUnqualifiedSupport({ version_added: '3', prefix: '-webkit-' }), false);
+            assert.strictEqual(service.isUnqualifiedSupport({ version_added: '71', flags: [{ type: 'preference', name: 'dom.webshare.enabled' }] }), false);
+            assert.strictEqual(service.isUnqualifiedSupport({ version_added: '10', version_removed: '20' }), false);
+            assert.strictEqual(service.isUnqualifiedSupport({ version_added: '15', partial_implementation: true }), false);
+        });
+
+        test('should describe support caveats', () => {
+            assert.strictEqual(service.describeSupportCaveat({ version_added: '3', prefix: '-webkit-' }), 'only with the -webkit- prefix since 3');
+            assert.strictEqual(
+                service.describeSupportCaveat({ version_added: '71', flags: [{ type: 'preference', name: 'dom.webshare.enabled' }] }),
+                'only behind the dom.webshare.enabled preference since 71'
+            );
+            assert.strictEqual(service.describeSupportCaveat({ version_added: '15' }), undefined);
+        });
+
+        test('should fail targets that only have prefixed support', () => {
+            const status = service.getBCDStatus('css.properties.user-select')!;
+            assert.ok(status.support.safari.prefix, 'Should keep the prefix in the support data');
+
+            service.setBrowserTargets([{ browser: 'safari', version: '15' }]);
+            const [result] = service.evaluateBrowserTargets('css.properties.user-select', status);
+
+            assert.strictEqual(result.supported, false);
+            assert.strictEqual(result.versionAdded, false);
+            assert.ok(result.caveat!.includes('-webkit-'));
+        });
+
+        test('should treat partial implementations the same for targets and Baseline', () => {
+            // Safari only implements accent-color partially
+            const status = service.getBCDStatus('css.properties.accent-color')!;
+            assert.strictEqual(status.status, 'limited_availability');
+            assert.strictEqual(status.support.safari.partial_implementation, true);
+
+            service.setBrowserTargets([{ browser: 'safari', version: '17' }]);
+            const [result] = service.evaluateBrowserTargets('css.properties.accent-color', status);
+
+            assert.strictEqual(result.supported, false);
+            assert.strictEqual(result.caveat, 'only a partial implementation since 15.4');
+        });
+    });
+
+    suite('Standard Status', () => {
+        setup(async () => {
+            await service.initialize();
+        });
+
+        test('should read deprecated and non-standard status from BCD', () => {
+            const execCommand = service.getStandardStatus('api.Document.execCommand')!;
+            assert.strictEqual(execCommand.deprecated, true);
+            assert.strictEqual(execCommand.standardTrack, true);
+
+            const boxReflect = service.getStandardStatus('css.properties.-webkit-box-reflect')!;
+            assert.strictEqual(boxReflect.deprecated, false);
+            assert.strictEqual(boxReflect.standardTrack, false);
+        });
+
+        test('should describe why a feature is in the deprecated category', () => {
+            assert.strictEqual(service.describeStandardStatus({ deprecated: true, standardTrack: true, experimental: false }), 'deprecated');
+            assert.strictEqual(service.describeStandardStatus({ deprecated: true, standardTrack: false, experimental: false }), 'deprecated and non-standard');
+            assert.strictEqual(service.describeStandardStatus({ deprecated: false, standardTrack: true, experimental: true }), undefined);
+        });
+
+        test('should map members of global instances to their interface', () => {
+            assert.strictEqual(service.mapJSAPIToBCD('document.execCommand'), 'api.Document.execCommand');
+        });
+    });
+
+    suite('Supported Audience', () => {
+        setup(async () => {
+            await service.initialize();
+        });
+
+        test('should compute a percentage of global usage', () => {
+            const status = service.getBCDStatus('css.properties.display.grid')!;
+            const percentage = service.getSupportedAudience('css.properties.display.grid', status);
+
+            assert.ok(percentage !== null);
+            assert.ok(percentage! > 0 && percentage! <= 100);
+        });
+
+        test('should return null for features without support data', () => {
+            const status = { status: 'limited_availability' as const, support: {} };
+            assert.strictEqual(service.getSupportedAudience('non-existent-feature-12345', status), null);
+        });
+
+        test('should compare the supported audience with the threshold', () => {
+            const status = service.getBCDStatus('css.properties.display.grid')!;
+
+            service.setSupportThreshold(0);
+            assert.strictEqual(service.evaluateAudienceSupport('css.properties.display.grid', status)!.meetsThreshold, true);
+
+            service.setSupportThreshold(100.1);
+            const audience = service.evaluateAudienceSupport('css.properties.display.grid', status)!;
+            assert.strictEqual(audience.meetsThreshold, false);
+            assert.strictEqual(audience.threshold, 100.1);
+        });
+    });
+
+    suite('Data Sources', () => {
+        setup(async () => {
+            await service.initialize();
+        });
+
+        test('should report the installed package versions for bundled data', () => {
+            const version = CompatibilityDataService.getBundledDataVersion();
+
+            assert.strictEqual(version.source, 'bundled');
+            assert.match(version.webFeatures, /^\d+\.\d+\.\d+/);
+            assert.match(version.bcd, /^\d+\.\d+\.\d+/);
+        });
+
+        test('should switch to loaded data and back to bundled data', () => {
+            const webFeatures = {
+                grid: {
+                    name: 'Grid (snapshot)',
+                    description: 'Snapshot grid',
+                    status: { baseline: false, support: {} },
+                    compat_features: ['css.properties.display.grid']
+                }
+            } as any;
+
+            service.loadData(webFeatures, null, { source: 'snapshot', webFeatures: 'test', bcd: 'bundled' });
+            assert.strictEqual(service.getDataVersion().source, 'snapshot');
+            assert.strictEqual(service.getFeatureDetails('css.properties.display.grid')!.name, 'Grid (snapshot)');
+            assert.strictEqual(service.getFeatureStatus('grid')!.status, 'limited_availability');
+
+            service.useBundledData();
+            assert.strictEqual(service.getDataVersion().source, 'bundled');
+            assert.strictEqual(service.getFeatureDetails('css.properties.display.grid')!.name, 'Grid');
+        });
     });
 
     suite('Cache Management', () => {
@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { CSSAnalyzer } from '../../analyzers/cssAnalyzer';
+import { CompatibilityDataService } from '../../services/compatibilityService';
+import { DetectedFeature } from '../../types';
+
+suite('CSS Nesting Test Suite', () => {
+    const nestedCSS = [
+        '.card {',
+        '  &:hover { color: blue; }',
+        '  .title { font-weight: bold; }',
+        '  @media (width > 40em) { padding: 0; }',
+        '}',
+        '[title="a & b"] { color: red; }'
+    ].join('\n');
+
+    let analyzer: CSSAnalyzer;
+
+    setup(async () => {
+        const compatibilityService = new CompatibilityDataService();
+        await compatibilityService.initialize();
+        analyzer = new CSSAnalyzer(compatibilityService);
+    });
+
+    async function findNesting(content: string, language: string): Promise<DetectedFeature[]> {
+        const document = await vscode.workspace.openTextDocument({ content, language });
+        const features = await analyzer.analyze(content, document);
+        return features.filter(feature => feature.id === 'css.selectors.nesting');
+    }
+
+    test('should detect nested rules and the & selector in plain CSS', async () => {
+        const nesting = await findNesting(nestedCSS, 'css');
+
+        assert.deepStrictEqual(nesting.map(feature => feature.name), ['&', 'nested rule', 'nested @media']);
+        assert.strictEqual(nesting[0].range.start.line, 1);
+        assert.strictEqual(nesting[0].range.start.character, 2);
+        assert.strictEqual(nesting[0].range.end.character, 3);
+    });
+
+    test('should resolve to the nesting web feature', async () => {
+        const [feature] = await findNesting('.a { & .b { color: red; } }', 'css');
+        assert.ok(feature);
+        assert.notStrictEqual(feature.baselineStatus.status, 'limited_availability');
+    });
+
+    test('should ignore & inside attribute selectors and strings', async () => {
+        const nesting = await findNesting('[title="a & b"], a[href*="&"] { color: red; }', 'css');
+        assert.strictEqual(nesting.length, 0);
+    });
+
+    test('should not report preprocessor nesting', async () => {
+        assert.strictEqual((await findNesting(nestedCSS, 'scss')).length, 0);
+        assert.strictEqual((await findNesting(nestedCSS, 'less')).length, 0);
+    });
+});
@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { CSSAnalyzer } from '../../analyzers/cssAnalyzer';
+import { CompatibilityDataService } from '../../services/compatibilityService';
+import { DetectedFeature } from '../../types';
+
+suite('CSS Preprocessor Parsing Test Suite', () => {
+    let analyzer: CSSAnalyzer;
+
+    setup(async () => {
+        const compatibilityService = new CompatibilityDataService();
+        await compatibilityService.initialize();
+        analyzer = new CSSAnalyzer(compatibilityService);
+    });
+
+    async function analyze(content: string, language: string): Promise<DetectedFeature[]> {
+        const document = await vscode.workspace.openTextDocument({ content, language });
+        return analyzer.analyze(content, document);
+    }
+
+    function findFeature(features: DetectedFeature[], id: string): DetectedFeature | undefined {
+        return features.find(feature => feature.id === id);
+    }
+
+    suite('SCSS', () => {
+        test('should find features in nested rules with exact ranges', async () => {
+            const features = await analyze([
+                '// Line comments are not valid CSS',
+                '.card {',
+                '  .media-#{$size} { width: clamp(1rem, 2vw, 3rem); }',
+                '}'
+            ].join('\n'), 'scss');
+
+            const clamp = findFeature(features, 'css.types.clamp');
+            assert.ok(clamp, 'Should detect clamp() inside an interpolated nested rule');
+            assert.strictEqual(clamp!.range.start.line, 2);
+            assert.strictEqual(clamp!.range.start.character, 27);
+            assert.strictEqual(clamp!.range.end.character, 32);
+        });
+
+        test('should not report variables, directives or Sass functions', async () => {
+            const features = await analyze([
+                '@use "sass:math";',
+                '$width: 10px;',
+                '@function half($value) { @return math.div($value, 2); }',
+                '@mixin stack { display: grid; }',
+                '.card { @include stack; width: round($width); }'
+            ].join('\n'), 'scss');
+
+            assert.ok(!findFeature(features, 'css.types.round'), 'Sass round() is evaluated at compile time');
+            assert.ok(!features.some(feature => feature.name.startsWith('$')), 'Sass variables are not CSS properties');
+            assert.ok(findFeature(features, 'css.properties.display'), 'Should still detect properties inside mixins');
+        });
+
+        test('should not report values of variable declarations', async () => {
+            const features = await analyze('$height: 100dvh;\n.card { $inner: 50dvh; min-height: 10dvh; }', 'scss');
+
+            const values = features.filter(feature => feature.id === 'css.types.length.viewport_percentage_units_dynamic');
+            assert.strictEqual(values.length, 1, 'Only the declaration outside a variable is reported');
+            assert.strictEqual(values[0].range.start.line, 1);
+            assert.strictEqual(values[0].range.start.character, 37);
+        });
+    });
+
+    suite('Sass', () => {
+        test('should parse the indented syntax', async () => {
+            const features = await analyze('$gap: 1rem\n.card\n  &:has(img)\n    aspect-ratio: 1\n', 'sass');
+
+            const aspectRatio = findFeature(features, 'css.properties.aspect-ratio');
+            assert.ok(aspectRatio, 'Should detect aspect-ratio in the indented syntax');
+            assert.strictEqual(aspectRatio!.range.start.line, 3);
+            assert.ok(findFeature(features, 'css.selectors.has'), 'Should detect :has() in a nested rule');
+        });
+    });
+
+    suite('Less', () => {
+        test('should not report mixins or Less functions', async () => {
+            const features = await analyze([
+                '@columns: 12;',
+                '.grid() { display: grid; }',
+                '.layout { .grid(); width: percentage(0.5); @media (min-width: 40em) { .item:has(img) { aspect-ratio: 1; } } }'
+            ].join('\n'), 'less');
+
+            assert.ok(!findFeature(features, 'css.types.percentage'), 'Less percentage() is evaluated at compile time');
+            assert.ok(findFeature(features, 'css.selectors.has'), 'Should detect :has() inside nested media blocks');
+            assert.ok(findFeature(features, 'css.properties.aspect-ratio'));
+        });
+
+        test('should not report values of variable declarations', async () => {
+            const features = await analyze('@height: 100dvh;\n.card { @inner: 50dvh; min-height: 10dvh; }', 'less');
+
+            const values = features.filter(feature => feature.id === 'css.types.length.viewport_percentage_units_dynamic');
+            assert.strictEqual(values.length, 1, 'Only the declaration outside a variable is reported');
+            assert.strictEqual(values[0].range.start.line, 1);
+            assert.strictEqual(values[0].range.start.character, 37);
+        });
+    });
+
+    suite('Stylus', () => {
+        test('should locate values without a colon', async () => {
+            const features = await analyze('gutter = 1rem\n.card\n  width clamp(1rem, 2vw, 3rem)\n', 'stylus');
+
+            const clamp = findFeature(features, 'css.types.clamp');
+            assert.ok(clamp, 'Should detect clamp() in Stylus');
+            assert.strictEqual(clamp!.range.start.line, 2);
+            assert.strictEqual(clamp!.range.start.character, 8);
+        });
+    });
+});
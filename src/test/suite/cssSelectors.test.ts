@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { CSSAnalyzer } from '../../analyzers/cssAnalyzer';
+import { CompatibilityDataService } from '../../services/compatibilityService';
+import { DetectedFeature } from '../../types';
+
+suite('CSS Selector Parsing Test Suite', () => {
+    let analyzer: CSSAnalyzer;
+
+    setup(async () => {
+        const compatibilityService = new CompatibilityDataService();
+        await compatibilityService.initialize();
+        analyzer = new CSSAnalyzer(compatibilityService);
+    });
+
+    async function findSelectors(content: string, language = 'css'): Promise<DetectedFeature[]> {
+        const document = await vscode.workspace.openTextDocument({ content, language });
+        const features = await analyzer.analyze(content, document);
+        return features.filter(feature => feature.id.startsWith('css.selectors.'));
+    }
+
+    test('should resolve pseudo-classes and pseudo-elements to their BCD keys', async () => {
+        const selectors = await findSelectors('input:user-invalid, :popover-open::backdrop, li::marker, a:focus-visible { color: red; }');
+        const ids = selectors.map(feature => feature.id);
+
+        assert.ok(ids.includes('css.selectors.user-invalid'));
+        assert.ok(ids.includes('css.selectors.popover-open'));
+        assert.ok(ids.includes('css.selectors.backdrop'));
+        assert.ok(ids.includes('css.selectors.marker'));
+        assert.ok(ids.includes('css.selectors.focus-visible'));
+    });
+
+    test('should not match pseudo-classes by prefix', async () => {
+        const selectors = await findSelectors('a:nothing { color: red; }');
+        assert.ok(!selectors.some(feature => feature.id === 'css.selectors.not'));
+    });
+
+    test('should give each selector its own range', async () => {
+        const selectors = await findSelectors('.list > li:has(img) { color: red; }');
+
+        const child = selectors.find(feature => feature.id === 'css.selectors.child');
+        assert.ok(child);
+        assert.strictEqual(child!.range.start.character, 6);
+        assert.strictEqual(child!.range.end.character, 7);
+
+        const has = selectors.find(feature => feature.id === 'css.selectors.has');
+        assert.ok(has);
+        assert.strictEqual(has!.range.start.character, 10);
+        assert.strictEqual(has!.range.end.character, 14);
+    });
+
+    test('should resolve functional and argument-specific forms', async () => {
+        const selectors = await findSelectors(':host(.dark) li:nth-child(2n + 1 of .item) { color: red; }');
+        const ids = selectors.map(feature => feature.id);
+
+        assert.ok(ids.includes('css.selectors.hostfunction'));
+        assert.ok(ids.includes('css.selectors.nth-child.of_syntax'));
+        assert.ok(!ids.includes('css.selectors.next-sibling'), 'An+B arguments contain no combinators');
+    });
+
+    test('should skip Less mixin definitions', async () => {
+        const selectors = await findSelectors('.bordered(@width) when (@width > 0) { border: @width solid; }', 'less');
+        assert.strictEqual(selectors.length, 0);
+    });
+});
@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { CSSAnalyzer } from '../../analyzers/cssAnalyzer';
+import { CompatibilityDataService } from '../../services/compatibilityService';
+import { DetectedFeature } from '../../types';
+
+suite('CSS @supports Guard Test Suite', () => {
+    let analyzer: CSSAnalyzer;
+
+    setup(async () => {
+        const compatibilityService = new CompatibilityDataService();
+        await compatibilityService.initialize();
+        analyzer = new CSSAnalyzer(compatibilityService);
+    });
+
+    async function analyze(content: string): Promise<DetectedFeature[]> {
+        const document = await vscode.workspace.openTextDocument({ content, language: 'css' });
+        return analyzer.analyze(content, document);
+    }
+
+    function findFeatures(features: DetectedFeature[], id: string): DetectedFeature[] {
+        return features.filter(feature => feature.id === id);
+    }
+
+    test('should guard features tested by a declaration condition', async () => {
+        const features = await analyze([
+            '@supports (display: grid) {',
+            '  .a { display: grid; grid-template-columns: subgrid; }',
+            '}',
+            '.b { display: grid; }'
+        ].join('\n'));
+
+        const [guarded, unguarded] = findFeatures(features, 'css.properties.display.grid');
+        assert.strictEqual(guarded.guard?.kind, 'supports');
+        assert.strictEqual(guarded.guard?.description, '@supports (display: grid)');
+        assert.strictEqual(unguarded.guard, undefined, 'Features outside the rule are not guarded');
+    });
+
+    test('should guard other parts of the tested web feature only', async () => {
+        const features = await analyze('@supports (display: grid) { .a { grid-template-columns: subgrid; } }');
+
+        assert.ok(findFeatures(features, 'css.properties.grid-template-columns')[0].guard, 'Grid properties belong to the grid feature');
+        assert.strictEqual(findFeatures(features, 'css.properties.grid-template-columns.subgrid')[0].guard, undefined, 'Subgrid is a separate feature');
+    });
+
+    test('should guard selectors tested with selector()', async () => {
+        const features = await analyze('@supports selector(:has(a)) { .card:has(img) { color: red; } .x:focus-visible { color: red; } }');
+
+        assert.ok(findFeatures(features, 'css.selectors.has')[0].guard);
+        assert.strictEqual(findFeatures(features, 'css.selectors.focus-visible')[0].guard, undefined);
+    });
+
+    test('should not treat negated conditions as guards', async () => {
+        const features = await analyze('@supports not (display: grid) { .a { display: grid; } }');
+        assert.strictEqual(findFeatures(features, 'css.properties.display.grid')[0].guard, undefined);
+    });
+
+    test('should combine nested and compound conditions', async () => {
+        const features = await analyze([
+            '@supports (aspect-ratio: 1) and (not (display: grid)) {',
+            '  @supports (height: 1dvh) { .a { aspect-ratio: 1; height: 100dvh; display: grid; } }',
+            '}'
+        ].join('\n'));
+
+        assert.ok(findFeatures(features, 'css.properties.aspect-ratio')[0].guard);
+        assert.strictEqual(findFeatures(features, 'css.types.length.viewport_percentage_units_dynamic')[0].guard?.description, '@supports (height: 1dvh)');
+        assert.strictEqual(findFeatures(features, 'css.properties.display.grid')[0].guard, undefined);
+    });
+
+    test('should only guard features every branch of a disjunction tests', async () => {
+        const features = await analyze([
+            '@supports (display: grid) or (display: -ms-grid) { .a { display: grid; } }',
+            '@supports ((aspect-ratio: 1) and (display: grid)) or (aspect-ratio: 1) { .b { aspect-ratio: 1; display: grid; } }'
+        ].join('\n'));
+
+        assert.strictEqual(findFeatures(features, 'css.properties.display.grid')[0].guard, undefined);
+        assert.strictEqual(findFeatures(features, 'css.properties.display.grid')[1].guard, undefined);
+        assert.ok(findFeatures(features, 'css.properties.aspect-ratio')[0].guard);
+    });
+});
@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { CSSAnalyzer } from '../../analyzers/cssAnalyzer';
+import { CompatibilityDataService } from '../../services/compatibilityService';
+import { DetectedFeature } from '../../types';
+
+suite('CSS Value Detection Test Suite', () => {
+    let analyzer: CSSAnalyzer;
+
+    setup(async () => {
+        const compatibilityService = new CompatibilityDataService();
+        await compatibilityService.initialize();
+        analyzer = new CSSAnalyzer(compatibilityService);
+    });
+
+    async function analyze(declarations: string[], language = 'css'): Promise<DetectedFeature[]> {
+        const content = ['.a {', ...declarations.map(declaration => `  ${declaration}`), '}'].join('\n');
+        const document = await vscode.workspace.openTextDocument({ content, language });
+        return analyzer.analyze(content, document);
+    }
+
+    function findFeature(features: DetectedFeature[], id: string): DetectedFeature | undefined {
+        return features.find(feature => feature.id === id);
+    }
+
+    test('should detect keywords anywhere in the value', async () => {
+        const features = await analyze(['display: inline grid;', 'text-wrap: balance;']);
+
+        const grid = findFeature(features, 'css.properties.display.grid');
+        assert.ok(grid, 'Should detect grid as the second display keyword');
+        assert.strictEqual(grid!.range.start.line, 1);
+        assert.strictEqual(grid!.range.start.character, 18);
+        assert.strictEqual(grid!.range.end.character, 22);
+        assert.ok(findFeature(features, 'css.properties.text-wrap.balance'));
+    });
+
+    test('should detect longhand keywords in shorthands', async () => {
+        const features = await analyze(['grid-template: subgrid / subgrid;']);
+        const subgrid = features.filter(feature => feature.id === 'css.properties.grid-template-columns.subgrid');
+        assert.strictEqual(subgrid.length, 2);
+    });
+
+    test('should detect units with the range of the unit', async () => {
+        const features = await analyze(['height: 100dvh;', 'padding: 2cqi 1lh;']);
+
+        const dvh = findFeature(features, 'css.types.length.viewport_percentage_units_dynamic');
+        assert.ok(dvh);
+        assert.strictEqual(dvh!.range.start.character, 13);
+        assert.strictEqual(dvh!.range.end.character, 16);
+        assert.ok(findFeature(features, 'css.types.length.container_query_length_units'));
+        assert.ok(findFeature(features, 'css.types.length.lh'));
+    });
+
+    test('should detect color syntaxes', async () => {
+        const features = await analyze([
+            'color: oklch(from var(--brand) l c h);',
+            'background: color-mix(in oklch, red 40%, blue);'
+        ]);
+
+        assert.ok(findFeature(features, 'css.types.color.oklch.relative_syntax'), 'Should detect relative color syntax');
+        assert.ok(findFeature(features, 'css.types.color.color-mix'));
+    });
+
+    test('should not treat function arguments as property keywords', async () => {
+        const features = await analyze(['width: calc(100% - auto);']);
+        assert.ok(!findFeature(features, 'css.properties.width.auto'));
+    });
+
+    test('should skip preprocessor functions and variables', async () => {
+        const features = await analyze(['width: math.div($width, 2);', 'height: round($height);'], 'scss');
+        assert.ok(!features.some(feature => feature.id.startsWith('css.types.')));
+    });
+});
@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { CSSAnalyzer } from '../../analyzers/cssAnalyzer';
+import { CompatibilityDataService } from '../../services/compatibilityService';
+import { DetectedFeature } from '../../types';
+
+suite('CSS Vendor Prefix Test Suite', () => {
+    let compatibilityService: CompatibilityDataService;
+    let analyzer: CSSAnalyzer;
+
+    setup(async () => {
+        compatibilityService = new CompatibilityDataService();
+        await compatibilityService.initialize();
+        analyzer = new CSSAnalyzer(compatibilityService);
+    });
+
+    async function findPrefixIssues(content: string, language = 'css'): Promise<DetectedFeature[]> {
+        const document = await vscode.workspace.openTextDocument({ content, language });
+        const features = await analyzer.analyze(content, document);
+        return features.filter(feature => feature.vendorPrefix);
+    }
+
+    test('should report prefixes the unprefixed property no longer needs', async () => {
+        const [feature] = await findPrefixIssues('.a {\n  -webkit-transform: none;\n  transform: none;\n}');
+
+        assert.ok(feature);
+        assert.strictEqual(feature.id, 'css.properties.transform');
+        assert.strictEqual(feature.vendorPrefix!.kind, 'redundant');
+        assert.strictEqual(feature.severity, 'info');
+        assert.strictEqual(feature.range.start.line, 1);
+        assert.strictEqual(feature.range.end.character, 19);
+
+        // The unprefixed declaration is already there, so the fix removes the prefixed one
+        const fix = feature.vendorPrefix!.fix;
+        assert.strictEqual(fix.newText, '');
+        assert.strictEqual(fix.range.start.line, 0);
+        assert.strictEqual(fix.range.start.character, 4);
+        assert.strictEqual(fix.range.end.line, 1);
+        assert.strictEqual(fix.range.end.character, 26);
+    });
+
+    test('should replace a redundant prefix when there is no unprefixed declaration', async () => {
+        const [feature] = await findPrefixIssues('.a { -webkit-transition: opacity 1s; }');
+
+        assert.ok(feature);
+        assert.strictEqual(feature.vendorPrefix!.fix.newText, 'transition');
+        assert.strictEqual(feature.vendorPrefix!.fix.range.start.character, 5);
+        assert.strictEqual(feature.vendorPrefix!.fix.range.end.character, 23);
+    });
+
+    test('should report unprefixed properties that still need a prefix', async () => {
+        const [feature] = await findPrefixIssues('.a {\n  user-select: none\n}');
+
+        assert.ok(feature);
+        assert.strictEqual(feature.id, 'css.properties.user-select');
+        assert.strictEqual(feature.vendorPrefix!.kind, 'missing');
+        assert.deepStrictEqual(feature.vendorPrefix!.prefixes, ['-webkit-']);
+        assert.ok(feature.vendorPrefix!.browsers.includes('safari'));
+        assert.strictEqual(feature.vendorPrefix!.fix.newText, '-webkit-user-select: none;\n  ');
+    });
+
+    test('should accept prefixes the target browsers need', async () => {
+        compatibilityService.setBrowserTargets([{ browser: 'safari', version: '17' }]);
+        const content = '.a { -webkit-backdrop-filter: blur(2px); backdrop-filter: blur(2px); -webkit-user-select: none; user-select: none; }';
+
+        assert.strictEqual((await findPrefixIssues(content)).length, 0);
+
+        compatibilityService.setBrowserTargets([{ browser: 'safari', version: '18' }]);
+        const [feature] = await findPrefixIssues(content);
+        assert.ok(feature);
+        assert.strictEqual(feature.name, '-webkit-backdrop-filter');
+    });
+
+    test('should keep prefixed properties without an unprefixed equivalent', async () => {
+        const issues = await findPrefixIssues('.a { display: -webkit-box; -webkit-box-orient: vertical; -webkit-line-clamp: 2; }');
+        assert.strictEqual(issues.length, 0);
+    });
+});
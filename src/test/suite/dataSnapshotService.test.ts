@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CompatibilityDataService } from '../../services/compatibilityService';
+import { ConfigurationService } from '../../services/configurationService';
+import { DataSnapshotService } from '../../services/dataSnapshotService';
+
+suite('DataSnapshotService Test Suite', () => {
+    let compatibilityService: CompatibilityDataService;
+    let configurationService: ConfigurationService;
+    let service: DataSnapshotService;
+
+    setup(async () => {
+        compatibilityService = new CompatibilityDataService();
+        await compatibilityService.initialize();
+        configurationService = new ConfigurationService();
+        await configurationService.initialize();
+        service = new DataSnapshotService(compatibilityService, configurationService);
+    });
+
+    teardown(() => {
+        service.dispose();
+        configurationService.dispose();
+    });
+
+    suite('Schema Validation', () => {
+        test('should accept web-features data in both published shapes', () => {
+            const feature = {
+                name: 'Grid',
+                status: { baseline: 'high', baseline_low_date: '2020-07-28', baseline_high_date: '2023-01-28', support: {} },
+                compat_features: ['css.properties.display.grid']
+            };
+
+            assert.deepStrictEqual(service.validateWebFeaturesData({ grid: feature }), []);
+            assert.deepStrictEqual(service.validateWebFeaturesData({ features: { grid: feature, 'old-grid': { kind: 'moved', redirect_target: 'grid' } } }), []);
+        });
+
+        test('should report invalid web features', () => {
+            const errors = service.validateWebFeaturesData({ grid: { status: { baseline: 'maybe' }, compat_features: 'css.properties.display.grid' } });
+
+            assert.ok(errors.some(error => error.includes('missing a name')));
+            assert.ok(errors.some(error => error.includes('invalid status.baseline')));
+            assert.ok(errors.some(error => error.includes('invalid compat_features')));
+            assert.deepStrictEqual(service.validateWebFeaturesData({}), ['expected a non-empty map of web features']);
+        });
+
+        test('should validate browser-compat-data', () => {
+            const valid = { __meta: { version: '7.2.0' }, browsers: { chrome: { releases: {} } }, css: {} };
+            assert.deepStrictEqual(service.validateBCDData(valid), []);
+
+            const errors = service.validateBCDData({ browsers: { chrome: {} } });
+            assert.ok(errors.some(error => error.includes('missing release data')));
+            assert.ok(errors.some(error => error.includes('at least one of')));
+        });
+    });
+
+    suite('Data Version', () => {
+        test('should report bundled data by default', () => {
+            const version = compatibilityService.getDataVersion();
+
+            assert.strictEqual(version.source, 'bundled');
+            assert.ok(version.bcd.length > 0);
+        });
+
+        test('should describe the active data versions', () => {
+            const description = service.describeVersion({ source: 'snapshot', webFeatures: 'web-features.json, modified 2025-01-01', bcd: '7.2.0' });
+            assert.strictEqual(description, 'web-features: web-features.json, modified 2025-01-01, browser-compat-data: 7.2.0');
+        });
+
+        test('should switch back to the bundled data when a snapshot fails to load', async () => {
+            const snapshotPath = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-lens-snapshot-'));
+            fs.writeFileSync(path.join(snapshotPath, 'web-features.json'), JSON.stringify({ grid: { status: {} } }));
+            const config = configurationService.getConfiguration();
+            configurationService.getConfiguration = () => ({ ...config, dataSnapshotPath: snapshotPath });
+
+            // An earlier snapshot is active when the configured directory changes
+            compatibilityService.loadData(null, null, { source: 'snapshot', webFeatures: 'old.json', bcd: '7.1.0', snapshotPath: '/old' });
+            const versions: string[] = [];
+            service.onDidChangeData(version => versions.push(version.source));
+
+            try {
+                await service.reload();
+            } finally {
+                fs.rmSync(snapshotPath, { recursive: true, force: true });
+            }
+
+            assert.strictEqual(compatibilityService.getDataVersion().source, 'bundled');
+            assert.deepStrictEqual(versions, ['bundled']);
+        });
+    });
+});
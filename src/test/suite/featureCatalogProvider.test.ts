@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import { AnalysisEngine } from '../../core/analysisEngine';
+import { CompatibilityDataService } from '../../services/compatibilityService';
+import { CatalogNode, FeatureCatalogProvider } from '../../services/featureCatalogProvider';
+
+// web-features is an ES module, loaded with require() like the extension does
+const features: { [id: string]: object } = require('web-features').default;
+
+suite('FeatureCatalogProvider Test Suite', () => {
+    let compatibilityService: CompatibilityDataService;
+    let provider: FeatureCatalogProvider;
+
+    setup(async () => {
+        compatibilityService = new CompatibilityDataService();
+        await compatibilityService.initialize();
+        provider = new FeatureCatalogProvider(compatibilityService, new AnalysisEngine());
+    });
+
+    teardown(() => {
+        provider.dispose();
+    });
+
+    function findGroup(nodes: CatalogNode[], groupId: string): CatalogNode {
+        const node = nodes.find(child => child.kind === 'group' && child.groupId === groupId);
+        assert.ok(node, `Should list the ${groupId} group`);
+        return node!;
+    }
+
+    suite('Grouping', () => {
+        test('should group by BCD category when the data has no groups', () => {
+            const [section] = provider.getChildren();
+            assert.deepStrictEqual(section, { kind: 'section', section: 'categories' });
+
+            const css = findGroup(provider.getChildren(section), 'css');
+            const selectors = findGroup(provider.getChildren(css), 'css.selectors');
+
+            assert.ok(provider.getChildren(selectors).some(node => node.kind === 'feature' && node.featureId === 'has'));
+        });
+
+        test('should follow group parents and list snapshots', () => {
+            const data: { [id: string]: any } = {};
+            for (const [id, feature] of Object.entries(features)) {
+                data[id] = { ...feature };
+            }
+            data.grid.group = 'grid';
+            data.grid.snapshot = 'ecmascript-2023';
+            compatibilityService.loadData(data as any, null, { source: 'snapshot', webFeatures: 'test', bcd: 'test' }, {
+                groups: { css: { name: 'CSS' }, layout: { name: 'Layout', parent: 'css' }, grid: { name: 'Grid', parent: 'layout' } },
+                snapshots: { 'ecmascript-2023': { name: 'ECMAScript 2023' } }
+            });
+            provider.refresh();
+
+            const [groups, snapshots] = provider.getChildren();
+            assert.deepStrictEqual(snapshots, { kind: 'section', section: 'snapshots' });
+
+            const css = findGroup(provider.getChildren(groups), 'css');
+            const layout = findGroup(provider.getChildren(css), 'layout');
+            const grid = findGroup(provider.getChildren(layout), 'grid');
+            assert.deepStrictEqual(provider.getChildren(grid), [{ kind: 'feature', featureId: 'grid' }]);
+            assert.ok(findGroup(provider.getChildren(snapshots), 'ecmascript-2023'));
+        });
+    });
+
+    suite('Workspace Usage', () => {
+        test('should count usages by web feature', () => {
+            provider.setWorkspaceUsages(['css.selectors.has', 'has', 'css.properties.color']);
+
+            assert.strictEqual(provider.getUsageCount('has'), 2);
+            assert.strictEqual(provider.getUsageCount('grid'), 0);
+        });
+
+        test('should highlight features the workspace uses', () => {
+            provider.setWorkspaceUsages(['css.selectors.has']);
+            const item = provider.getTreeItem({ kind: 'feature', featureId: 'has' });
+            const label = item.label as { label: string; highlights?: [number, number][] };
+
+            assert.deepStrictEqual(label.highlights, [[0, label.label.length]]);
+        });
+    });
+});
@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { AnalysisEngine } from '../../core/analysisEngine';
+import { CompatibilityDataService } from '../../services/compatibilityService';
+import { FeatureExplorerService } from '../../services/featureExplorerService';
+import { DetectedFeature } from '../../types';
+
+suite('FeatureExplorerService Test Suite', () => {
+    let compatibilityService: CompatibilityDataService;
+    let service: FeatureExplorerService;
+
+    setup(async () => {
+        compatibilityService = new CompatibilityDataService();
+        await compatibilityService.initialize();
+        service = new FeatureExplorerService(compatibilityService, new AnalysisEngine());
+    });
+
+    teardown(() => {
+        service.dispose();
+    });
+
+    function createFeature(id: string, filePath: string, line: number): DetectedFeature {
+        return {
+            id,
+            name: id,
+            type: 'css',
+            range: new vscode.Range(line, 0, line, 4),
+            baselineStatus: compatibilityService.getFeatureStatus(id) || { status: 'limited_availability', support: {} },
+            severity: 'info',
+            filePath
+        };
+    }
+
+    suite('Workspace Usages', () => {
+        test('should match usages through the BCD keys of a web feature', () => {
+            const features = [
+                createFeature('css.selectors.has', '/project/b.css', 3),
+                createFeature('css.properties.color', '/project/a.css', 1),
+                createFeature('css.selectors.has', '/project/a.css', 7)
+            ];
+
+            const usages = service.getFeatureUsages('has', features);
+
+            assert.strictEqual(usages.length, 2);
+            assert.deepStrictEqual(usages.map(usage => usage.filePath), ['/project/a.css', '/project/b.css']);
+        });
+
+        test('should return no usages for unused features', () => {
+            const features = [createFeature('css.properties.color', '/project/a.css', 1)];
+            assert.strictEqual(service.getFeatureUsages('container-queries', features).length, 0);
+        });
+    });
+});
@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { JavaScriptAnalyzer } from '../../analyzers/jsAnalyzer';
+import { CompatibilityDataService } from '../../services/compatibilityService';
+import { DetectedFeature } from '../../types';
+
+suite('JavaScript Built-in Methods Test Suite', () => {
+    let analyzer: JavaScriptAnalyzer;
+
+    setup(async () => {
+        const compatibilityService = new CompatibilityDataService();
+        await compatibilityService.initialize();
+        analyzer = new JavaScriptAnalyzer(compatibilityService);
+    });
+
+    async function findBuiltins(content: string, language = 'javascript'): Promise<DetectedFeature[]> {
+        const document = await vscode.workspace.openTextDocument({ content, language });
+        const features = await analyzer.analyze(content, document);
+        return features.filter(feature => feature.id.startsWith('javascript.builtins.'));
+    }
+
+    test('should resolve methods on literals and constructed values', async () => {
+        const features = await findBuiltins([
+            'const items = [1, 2, 3];',
+            'const last = items.findLast(item => item > 1);',
+            "const slug = 'a b'.replaceAll(' ', '-');",
+            'const tags = new Set(items);',
+            'tags.union(new Set([4]));'
+        ].join('\n'));
+        const ids = features.map(feature => feature.id);
+
+        assert.ok(ids.includes('javascript.builtins.Array.findLast'));
+        assert.ok(ids.includes('javascript.builtins.String.replaceAll'));
+        assert.ok(ids.includes('javascript.builtins.Set.union'));
+        assert.ok(!ids.some(id => id.startsWith('javascript.builtins.items')), 'Variable names are not types');
+    });
+
+    test('should name and range the method', async () => {
+        const [feature] = (await findBuiltins('const items = [];\nitems.filter(Boolean).at(-1);'))
+            .filter(builtin => builtin.id === 'javascript.builtins.Array.at');
+
+        assert.ok(feature, 'Chained array methods keep the Array type');
+        assert.strictEqual(feature.name, 'Array.prototype.at');
+        assert.strictEqual(feature.range.start.line, 1);
+        assert.strictEqual(feature.range.start.character, 22);
+        assert.strictEqual(feature.range.end.character, 24);
+    });
+
+    test('should use TypeScript annotations', async () => {
+        const features = await findBuiltins(
+            'function pick(list: readonly string[], label: string, values: Array<number>) { return [list.at(0), label.at(0), values.findLast(Boolean)]; }',
+            'typescript'
+        );
+        const ids = features.map(feature => feature.id);
+
+        assert.ok(ids.includes('javascript.builtins.Array.at'));
+        assert.ok(ids.includes('javascript.builtins.String.at'));
+        assert.ok(ids.includes('javascript.builtins.Array.findLast'));
+    });
+
+    test('should not guess types of reassigned or unknown values', async () => {
+        const features = await findBuiltins([
+            "let value = 'text';",
+            'value = load();',
+            'value.at(0);',
+            'const options = { at: 1 };',
+            'options.at;',
+            'const cache = new Map();',
+            'cache.groupBy;'
+        ].join('\n'));
+
+        assert.ok(!features.some(feature => feature.id === 'javascript.builtins.String.at'));
+        assert.ok(!features.some(feature => feature.id === 'javascript.builtins.Map.groupBy'), 'Map.groupBy is static');
+    });
+
+    test('should still report static methods', async () => {
+        const features = await findBuiltins('Object.groupBy([], Boolean);\nPromise.withResolvers();');
+        const ids = features.map(feature => feature.id);
+
+        assert.ok(ids.includes('javascript.builtins.Object.groupBy'));
+        assert.ok(ids.includes('javascript.builtins.Promise.withResolvers'));
+    });
+});
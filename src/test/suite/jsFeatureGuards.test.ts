@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { JavaScriptAnalyzer } from '../../analyzers/jsAnalyzer';
+import { CompatibilityDataService } from '../../services/compatibilityService';
+import { ConfigurationService } from '../../services/configurationService';
+import { UIService } from '../../services/uiService';
+import { DetectedFeature } from '../../types';
+
+suite('JavaScript Feature Guards Test Suite', () => {
+    let analyzer: JavaScriptAnalyzer;
+    let configurationService: ConfigurationService;
+    let uiService: UIService;
+
+    setup(async () => {
+        const compatibilityService = new CompatibilityDataService();
+        await compatibilityService.initialize();
+        analyzer = new JavaScriptAnalyzer(compatibilityService);
+        configurationService = new ConfigurationService();
+        await configurationService.initialize();
+        uiService = new UIService(compatibilityService, configurationService);
+    });
+
+    teardown(() => {
+        uiService.dispose();
+        configurationService.dispose();
+    });
+
+    async function findFeatures(content: string, id: string): Promise<DetectedFeature[]> {
+        const document = await vscode.workspace.openTextDocument({ content, language: 'javascript' });
+        const features = await analyzer.analyze(content, document);
+        return features.filter(feature => feature.id === id);
+    }
+
+    test('should guard the branch of an in check but not its else branch', async () => {
+        const features = await findFeatures([
+            "if ('IntersectionObserver' in window) {",
+            '  observer = new IntersectionObserver(callback);',
+            '} else {',
+            '  observer = new IntersectionObserver(callback);',
+            '}'
+        ].join('\n'), 'api.IntersectionObserver');
+        const guarded = features.find(feature => feature.range.start.line === 1)!;
+        const unguarded = features.find(feature => feature.range.start.line === 3)!;
+
+        assert.ok(guarded.guard);
+        assert.strictEqual(guarded.guard!.kind, 'feature-detection');
+        assert.strictEqual(guarded.guard!.description, "'IntersectionObserver' in window");
+        assert.strictEqual(unguarded.guard, undefined);
+    });
+
+    test('should guard typeof checks in conditions and ternaries', async () => {
+        const features = await findFeatures("const copy = typeof structuredClone === 'function' ? structuredClone(value) : clone(value);", 'api.structuredClone');
+
+        assert.ok(features.length > 0);
+        assert.ok(features.every(feature => feature.guard?.description === "typeof structuredClone === 'function'"));
+    });
+
+    test('should not guard code that runs when the check fails', async () => {
+        const features = await findFeatures("if (typeof structuredClone === 'undefined') { structuredClone(value); }", 'api.structuredClone');
+        const check = features.find(feature => feature.range.start.character === 11)!;
+        const use = features.find(feature => feature.range.start.character === 46)!;
+
+        assert.strictEqual(check.guard?.description, "typeof structuredClone === 'undefined'");
+        assert.strictEqual(use.guard, undefined);
+    });
+
+    test('should guard the check of a negated early return', async () => {
+        const features = await findFeatures([
+            'function share() {',
+            '  if (!navigator.share) return;',
+            '  navigator.share({});',
+            '}'
+        ].join('\n'), 'api.Navigator.share');
+        const check = features.find(feature => feature.range.start.line === 1)!;
+        const use = features.find(feature => feature.range.start.line === 2)!;
+
+        assert.strictEqual(check.range.start.character, 7);
+        assert.strictEqual(check.guard?.description, '!navigator.share');
+        assert.strictEqual(use.guard?.description, '!navigator.share');
+        const [diagnostic] = uiService.createDiagnosticsFromFeatures([use]);
+        assert.ok(diagnostic.message.endsWith('(guarded by !navigator.share)'), diagnostic.message);
+    });
+
+    test('should guard optional calls and code after an early return', async () => {
+        const optional = await findFeatures("navigator.share?.({ title: 'Page' });", 'api.Navigator.share');
+        assert.strictEqual(optional[0].guard?.description, 'navigator.share?.()');
+
+        const afterReturn = await findFeatures([
+            'function share() {',
+            "  if (!('share' in navigator)) return;",
+            '  navigator.share({});',
+            '}'
+        ].join('\n'), 'api.Navigator.share');
+        assert.strictEqual(afterReturn[0].guard?.description, "!('share' in navigator)");
+    });
+
+    test('should guard features of the web feature tested by CSS.supports', async () => {
+        const [feature] = await findFeatures(
+            "if (CSS.supports('view-transition-name', 'card')) { document.startViewTransition(update); }",
+            'api.Document.startViewTransition'
+        );
+
+        assert.ok(feature);
+        assert.strictEqual(feature.guard?.description, "CSS.supports('view-transition-name', 'card')");
+    });
+});
@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { JavaScriptAnalyzer } from '../../analyzers/jsAnalyzer';
+import { CompatibilityDataService } from '../../services/compatibilityService';
+import { DetectedFeature } from '../../types';
+
+suite('JSX Analysis Test Suite', () => {
+    const component = [
+        'export function Panel() {',
+        '  return (',
+        '    <dialog className="panel" popover="auto">',
+        '      <img src="a.png" loading="lazy" fetchPriority="high" />',
+        '      <Modal inert />',
+        '      <div inert>{structuredClone({})}</div>',
+        '    </dialog>',
+        '  );',
+        '}'
+    ].join('\n');
+
+    let analyzer: JavaScriptAnalyzer;
+
+    setup(async () => {
+        const compatibilityService = new CompatibilityDataService();
+        await compatibilityService.initialize();
+        analyzer = new JavaScriptAnalyzer(compatibilityService);
+    });
+
+    async function analyze(content: string, language: string): Promise<DetectedFeature[]> {
+        const document = await vscode.workspace.openTextDocument({ content, language });
+        return analyzer.analyze(content, document);
+    }
+
+    test('should map intrinsic elements and attributes to HTML keys', async () => {
+        const features = await analyze(component, 'javascriptreact');
+        const ids = features.map(feature => feature.id);
+
+        assert.ok(ids.includes('html.elements.dialog'));
+        assert.ok(ids.includes('html.global_attributes.popover'));
+        assert.ok(ids.includes('html.elements.img.loading'));
+        assert.ok(ids.includes('html.elements.img.fetchpriority'), 'React props resolve to their lowercase attribute');
+        assert.ok(ids.includes('html.global_attributes.class'), 'className resolves to class');
+        assert.ok(ids.includes('api.structuredClone'), 'Should still analyze expressions inside JSX');
+    });
+
+    test('should range elements by their tag name', async () => {
+        const features = await analyze(component, 'javascriptreact');
+
+        const dialog = features.find(feature => feature.id === 'html.elements.dialog');
+        assert.ok(dialog);
+        assert.strictEqual(dialog!.type, 'html');
+        assert.strictEqual(dialog!.range.start.line, 2);
+        assert.strictEqual(dialog!.range.start.character, 5);
+        assert.strictEqual(dialog!.range.end.character, 11);
+    });
+
+    test('should not treat components as HTML elements', async () => {
+        const features = await analyze(component, 'javascriptreact');
+        const inert = features.filter(feature => feature.id === 'html.global_attributes.inert');
+
+        assert.strictEqual(inert.length, 1, 'inert on <Modal> is a component prop');
+        assert.strictEqual(inert[0].range.start.line, 5);
+    });
+
+    test('should parse JSX in TSX files', async () => {
+        const features = await analyze(component.replace('Panel()', 'Panel(): JSX.Element'), 'typescriptreact');
+        assert.ok(features.some(feature => feature.id === 'html.elements.dialog'));
+    });
+});
@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { JavaScriptAnalyzer } from '../../analyzers/jsAnalyzer';
+import { CompatibilityDataService } from '../../services/compatibilityService';
+import { DetectedFeature } from '../../types';
+
+suite('JavaScript Scope Analysis Test Suite', () => {
+    let analyzer: JavaScriptAnalyzer;
+
+    setup(async () => {
+        const compatibilityService = new CompatibilityDataService();
+        await compatibilityService.initialize();
+        analyzer = new JavaScriptAnalyzer(compatibilityService);
+    });
+
+    async function analyze(content: string, language = 'javascript'): Promise<DetectedFeature[]> {
+        const document = await vscode.workspace.openTextDocument({ content, language });
+        return analyzer.analyze(content, document);
+    }
+
+    test('should ignore locals, parameters and object keys named like globals', async () => {
+        const features = await analyze([
+            'function load(Map, name) {',
+            '  const status = { name, status: 1, open: true };',
+            '  return new Map([[name, status.status]]);',
+            '}',
+            'this.name = "widget";'
+        ].join('\n'));
+
+        assert.strictEqual(features.filter(feature => feature.id.startsWith('api.') || feature.id.startsWith('javascript.builtins.')).length, 0);
+    });
+
+    test('should not report imported bindings as browser globals', async () => {
+        const features = await analyze("import { fetch } from './http';\nfetch('/api');");
+        assert.ok(!features.some(feature => feature.id === 'api.fetch'));
+    });
+
+    test('should report members of the global object as globals', async () => {
+        const features = await analyze("window.fetch('/api');\nglobalThis.IntersectionObserver;");
+
+        const fetchCall = features.find(feature => feature.id === 'api.fetch');
+        assert.ok(fetchCall);
+        assert.strictEqual(fetchCall!.name, 'fetch');
+        assert.ok(features.some(feature => feature.id === 'api.IntersectionObserver'));
+    });
+
+    test('should still report references to real globals', async () => {
+        const features = await analyze('function copy(value) { return structuredClone(value); }\nPromise.allSettled([]);');
+
+        assert.ok(features.some(feature => feature.id === 'api.structuredClone'));
+        assert.ok(features.some(feature => feature.id === 'javascript.builtins.Promise.allSettled'));
+    });
+
+    test('should ignore TypeScript parameters named like globals', async () => {
+        const features = await analyze('function toggle(open: boolean): boolean { return !open; }', 'typescript');
+        assert.ok(!features.some(feature => feature.id === 'api.Window.open'));
+    });
+});
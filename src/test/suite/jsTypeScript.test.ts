@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { JavaScriptAnalyzer } from '../../analyzers/jsAnalyzer';
+import { CompatibilityDataService } from '../../services/compatibilityService';
+import { DetectedFeature } from '../../types';
+
+suite('TypeScript Parsing Test Suite', () => {
+    let analyzer: JavaScriptAnalyzer;
+
+    setup(async () => {
+        const compatibilityService = new CompatibilityDataService();
+        await compatibilityService.initialize();
+        analyzer = new JavaScriptAnalyzer(compatibilityService);
+    });
+
+    async function analyze(content: string, language = 'typescript'): Promise<DetectedFeature[]> {
+        const document = await vscode.workspace.openTextDocument({ content, language });
+        return analyzer.analyze(content, document);
+    }
+
+    test('should parse enums, generics, decorators and satisfies', async () => {
+        const features = await analyze([
+            'enum Mode { Read, Write }',
+            '@sealed',
+            'class Store<T extends object> {',
+            '  constructor(private readonly items: T[]) {}',
+            '}',
+            'const config = { retries: 3 } satisfies Record<string, number>;',
+            'const controller = new AbortController();'
+        ].join('\n'));
+
+        assert.ok(features.some(feature => feature.id === 'api.AbortController'), 'Should analyze code after TypeScript-only syntax');
+    });
+
+    test('should parse TypeScript 5 syntax', async () => {
+        const features = await analyze([
+            'class Counter { accessor count = 0; }',
+            'function first<const T extends readonly unknown[]>(items: T) { return items[0]; }',
+            'async function load() {',
+            '  using lock = acquire();',
+            '  await using connection = await connect();',
+            '  return new AbortController();',
+            '}'
+        ].join('\n'));
+
+        assert.ok(features.some(feature => feature.id === 'api.AbortController'), 'Should not fall back to the regex analyzer');
+    });
+
+    test('should keep ranges aligned with the original source', async () => {
+        const features = await analyze([
+            'const value: string | null = null;',
+            'if (value !== null && !value!.length) {',
+            '  fetch(value as string);',
+            '}'
+        ].join('\n'));
+
+        const fetchCall = features.find(feature => feature.id === 'api.fetch');
+        assert.ok(fetchCall);
+        assert.strictEqual(fetchCall!.range.start.line, 2);
+        assert.strictEqual(fetchCall!.range.start.character, 2);
+        assert.strictEqual(fetchCall!.range.end.character, 7);
+    });
+
+    test('should not report names used only in types', async () => {
+        const features = await analyze([
+            "import type { Options } from './options';",
+            'interface Cache { controller: AbortController }',
+            'declare const signal: AbortSignal;',
+            'function run(options: Options): Promise<void> { return Promise.resolve(); }'
+        ].join('\n'));
+
+        assert.ok(!features.some(feature => feature.id === 'api.AbortController'));
+        assert.ok(!features.some(feature => feature.id === 'api.AbortSignal'));
+    });
+
+    test('should parse TSX', async () => {
+        const features = await analyze('const App = (): JSX.Element => <div>{structuredClone({}) as unknown}</div>;', 'typescriptreact');
+        assert.ok(features.some(feature => feature.id === 'api.structuredClone'));
+    });
+});
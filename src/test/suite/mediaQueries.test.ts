@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { CSSAnalyzer } from '../../analyzers/cssAnalyzer';
+import { HTMLAnalyzer } from '../../analyzers/htmlAnalyzer';
+import { JavaScriptAnalyzer } from '../../analyzers/jsAnalyzer';
+import { parseMediaQueryFeatures } from '../../analyzers/mediaQueries';
+import { CompatibilityDataService } from '../../services/compatibilityService';
+import { DetectedFeature } from '../../types';
+
+suite('Media Query Features Test Suite', () => {
+    let compatibilityService: CompatibilityDataService;
+
+    setup(async () => {
+        compatibilityService = new CompatibilityDataService();
+        await compatibilityService.initialize();
+    });
+
+    function mediaFeatures(features: DetectedFeature[]): DetectedFeature[] {
+        return features.filter(feature => feature.id.startsWith('css.at-rules.media.'));
+    }
+
+    suite('parseMediaQueryFeatures', () => {
+        test('should resolve features, prefixes and range syntax', () => {
+            const features = parseMediaQueryFeatures('screen and (min-width: 40em), (400px <= height <= 700px)');
+
+            assert.deepStrictEqual(features.map(feature => feature.bcdKey), [
+                'css.at-rules.media.width',
+                'css.at-rules.media.height',
+                'css.at-rules.media.range_syntax'
+            ]);
+            assert.strictEqual(features[1].index, 40);
+            assert.strictEqual(features[2].name, '<=');
+        });
+
+        test('should report the or keyword outside media features', () => {
+            const features = parseMediaQueryFeatures('(hover: hover) or (pointer: fine)');
+            const or = features.find(feature => feature.bcdKey === 'css.at-rules.media.or_syntax');
+
+            assert.ok(or);
+            assert.strictEqual(or!.index, 15);
+        });
+    });
+
+    test('should detect each media feature in @media rules', async () => {
+        const analyzer = new CSSAnalyzer(compatibilityService);
+        const content = '@media (prefers-reduced-motion) and (hover: hover), (width >= 600px) { a { color: red; } }';
+        const document = await vscode.workspace.openTextDocument({ content, language: 'css' });
+        const features = mediaFeatures(await analyzer.analyze(content, document));
+        const ids = features.map(feature => feature.id);
+
+        assert.ok(ids.includes('css.at-rules.media.prefers-reduced-motion'));
+        assert.ok(ids.includes('css.at-rules.media.hover'));
+        assert.ok(ids.includes('css.at-rules.media.range_syntax'));
+
+        const width = features.find(feature => feature.id === 'css.at-rules.media.width');
+        assert.ok(width);
+        assert.strictEqual(width!.range.start.character, 53);
+        assert.strictEqual(width!.range.end.character, 58);
+    });
+
+    test('should detect media features in HTML media attributes', async () => {
+        const analyzer = new HTMLAnalyzer(compatibilityService);
+        const content = '<link rel="stylesheet" href="dark.css" media="(prefers-color-scheme: dark)">';
+        const document = await vscode.workspace.openTextDocument({ content, language: 'html' });
+        const [feature] = mediaFeatures(await analyzer.analyze(content, document));
+
+        assert.ok(feature);
+        assert.strictEqual(feature.id, 'css.at-rules.media.prefers-color-scheme');
+        assert.strictEqual(feature.range.start.character, 47);
+    });
+
+    test('should detect media features in matchMedia() queries', async () => {
+        const analyzer = new JavaScriptAnalyzer(compatibilityService);
+        const content = "const query = window.matchMedia('(dynamic-range: high)');";
+        const document = await vscode.workspace.openTextDocument({ content, language: 'javascript' });
+        const [feature] = mediaFeatures(await analyzer.analyze(content, document));
+
+        assert.ok(feature);
+        assert.strictEqual(feature.id, 'css.at-rules.media.dynamic-range');
+        assert.strictEqual(feature.range.start.character, 34);
+    });
+
+    test('should only read queries passed to the global matchMedia()', async () => {
+        const analyzer = new JavaScriptAnalyzer(compatibilityService);
+        const content = [
+            "import { matchMedia } from './media';",
+            "matchMedia('(dynamic-range: high)');",
+            "globalThis.matchMedia('(hover: hover)');",
+            "tester.matchMedia('(pointer: fine)');"
+        ].join('\n');
+        const document = await vscode.workspace.openTextDocument({ content, language: 'javascript' });
+        const features = mediaFeatures(await analyzer.analyze(content, document));
+
+        assert.deepStrictEqual(features.map(feature => feature.id), ['css.at-rules.media.hover']);
+    });
+});
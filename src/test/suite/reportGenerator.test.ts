@@ -0,0 +1,100 @@
+import * as assert from 'assert';
+import bcd from '@mdn/browser-compat-data';
+import { AnalysisEngine } from '../../core/analysisEngine';
+import { CompatibilityDataService } from '../../services/compatibilityService';
+import { ReportGenerator } from '../../services/reportGenerator';
+import { BaselineStatus, DataUpdateReport } from '../../types';
+
+suite('ReportGenerator Test Suite', () => {
+    let reportGenerator: ReportGenerator;
+
+    const newlyAvailable: BaselineStatus = {
+        status: 'newly_available',
+        low_date: '2023-03-27',
+        high_date: '2025-09-27',
+        support: { chrome: { version_added: '105' }, safari: { version_added: '15.4' } }
+    };
+
+    setup(() => {
+        reportGenerator = new ReportGenerator(new AnalysisEngine(), new CompatibilityDataService());
+    });
+
+    suite('Data Update Comparison', () => {
+        test('should ignore features whose data did not change', () => {
+            assert.strictEqual(reportGenerator.compareFeatureData('css.selectors.has', newlyAvailable, { ...newlyAvailable }), null);
+        });
+
+        test('should classify status changes', () => {
+            const widelyAvailable: BaselineStatus = { ...newlyAvailable, status: 'widely_available' };
+            const limited: BaselineStatus = { ...newlyAvailable, status: 'limited_availability' };
+
+            assert.strictEqual(reportGenerator.compareFeatureData('css.selectors.has', newlyAvailable, widelyAvailable)!.changeType, 'status_upgrade');
+            assert.strictEqual(reportGenerator.compareFeatureData('css.selectors.has', newlyAvailable, limited)!.changeType, 'status_downgrade');
+        });
+
+        test('should flag support moving to a later version as a regression', () => {
+            const later: BaselineStatus = {
+                ...newlyAvailable,
+                support: { ...newlyAvailable.support, safari: { version_added: '16' } }
+            };
+
+            const change = reportGenerator.compareFeatureData('css.selectors.has', newlyAvailable, later)!;
+            assert.strictEqual(change.changeType, 'support_regression');
+            assert.deepStrictEqual(change.supportChanges, [{ browser: 'safari', previous: '15.4', current: '16' }]);
+        });
+
+        test('should classify features that gained or lost data', () => {
+            assert.strictEqual(reportGenerator.compareFeatureData('css.selectors.has', null, newlyAvailable)!.changeType, 'added');
+            assert.strictEqual(reportGenerator.compareFeatureData('css.selectors.has', newlyAvailable, null)!.changeType, 'removed');
+        });
+
+        test('should export changes with their locations as markdown', () => {
+            const change = reportGenerator.compareFeatureData('css.selectors.has', newlyAvailable, { ...newlyAvailable, status: 'widely_available' })!;
+            const report: DataUpdateReport = {
+                previousData: { source: 'bundled', webFeatures: 'bundled', bcd: '7.1.9' },
+                currentData: { source: 'snapshot', webFeatures: 'bundled', bcd: '7.2.0', snapshotPath: '/project/compat-data' },
+                changes: [{ ...change, name: ':has()', locations: [{ filePath: '/project/src/styles.css', line: 12, column: 3 }] }],
+                unchangedFeatures: 4,
+                generatedAt: new Date(),
+                projectPath: '/project',
+                analyzedFiles: 3
+            };
+
+            const markdown = reportGenerator.exportDataUpdateReport(report, 'markdown');
+            assert.ok(markdown.includes('## Status Upgrades'));
+            assert.ok(markdown.includes('Newly Available → Widely Available'));
+            assert.ok(markdown.includes('`src/styles.css:12:3`'));
+            assert.ok(markdown.includes('| browser-compat-data | 7.1.9 | 7.2.0 |'));
+        });
+
+        test('should report support regressions when only browser-compat-data changed', async () => {
+            const previousData = new CompatibilityDataService();
+            await previousData.initialize();
+            const currentData = new CompatibilityDataService();
+            await currentData.initialize();
+
+            const has = (bcd.css.selectors as any).has.__compat;
+            const updatedBCD = {
+                ...bcd,
+                css: {
+                    ...bcd.css,
+                    selectors: {
+                        ...bcd.css.selectors,
+                        has: { __compat: { ...has, support: { ...has.support, safari: { version_added: '17' } } } }
+                    }
+                }
+            } as unknown as typeof bcd;
+            currentData.loadData(null, updatedBCD, { source: 'snapshot', webFeatures: 'bundled', bcd: 'updated', snapshotPath: '/snapshot' });
+
+            const change = reportGenerator.compareFeatureData(
+                'css.selectors.has',
+                reportGenerator.getDatasetStatus(previousData, 'css.selectors.has'),
+                reportGenerator.getDatasetStatus(currentData, 'css.selectors.has')
+            )!;
+            assert.strictEqual(change.changeType, 'support_regression');
+            assert.deepStrictEqual(change.supportChanges.filter(supportChange => supportChange.browser === 'safari'), [
+                { browser: 'safari', previous: '15.4', current: '17' }
+            ]);
+        });
+    });
+});
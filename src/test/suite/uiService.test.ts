@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { CompatibilityDataService } from '../../services/compatibilityService';
+import { ConfigurationService } from '../../services/configurationService';
+import { UIService } from '../../services/uiService';
+import { DetectedFeature } from '../../types';
+
+suite('UI Service Test Suite', () => {
+    let configurationService: ConfigurationService;
+    let uiService: UIService;
+
+    setup(async () => {
+        const compatibilityService = new CompatibilityDataService();
+        await compatibilityService.initialize();
+        configurationService = new ConfigurationService();
+        await configurationService.initialize();
+        uiService = new UIService(compatibilityService, configurationService);
+    });
+
+    teardown(() => {
+        uiService.dispose();
+        configurationService.dispose();
+    });
+
+    function deprecatedFeature(supported: boolean): DetectedFeature {
+        return {
+            id: 'api.Document.execCommand',
+            name: 'document.execCommand',
+            type: 'javascript',
+            range: new vscode.Range(0, 0, 0, 20),
+            baselineStatus: { status: 'widely_available', support: {} },
+            severity: 'info',
+            targetSupport: [{ browser: 'safari', targetVersion: '12', versionAdded: supported ? '1' : '15', supported }],
+            standardStatus: { deprecated: true, standardTrack: true, experimental: false }
+        };
+    }
+
+    test('should not let deprecation lower the severity of features failing the targets', () => {
+        const [diagnostic] = uiService.createDiagnosticsFromFeatures([deprecatedFeature(false)]);
+
+        assert.strictEqual(diagnostic.severity, vscode.DiagnosticSeverity.Error);
+        assert.deepStrictEqual(diagnostic.tags, [vscode.DiagnosticTag.Deprecated]);
+        assert.ok(diagnostic.message.includes('is not supported by target browsers: Safari 12'), diagnostic.message);
+    });
+
+    test('should report deprecated features that meet the targets at the deprecated severity', () => {
+        const [diagnostic] = uiService.createDiagnosticsFromFeatures([deprecatedFeature(true)]);
+
+        assert.strictEqual(diagnostic.severity, vscode.DiagnosticSeverity.Warning);
+        assert.ok(diagnostic.message.startsWith('document.execCommand is deprecated'), diagnostic.message);
+    });
+});
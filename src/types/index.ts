@@ -9,6 +9,105 @@ export interface DetectedFeature {
     context?: string;
     severity: 'error' | 'warning' | 'info';
     filePath?: string;
+    targetSupport?: BrowserTargetResult[];
+    audienceSupport?: AudienceSupport;
+    baselineTarget?: BaselineTargetResult;
+    standardStatus?: FeatureStandardStatus;
+    guard?: FeatureGuard;
+    vendorPrefix?: VendorPrefixIssue;
+}
+
+/**
+ * A vendor prefix on a CSS declaration that the target browsers do not need,
+ * or one they still need that is missing
+ */
+export interface VendorPrefixIssue {
+    kind: 'redundant' | 'missing';
+    /** The prefixes involved, e.g. ["-webkit-"] */
+    prefixes: string[];
+    /** The unprefixed property, e.g. "user-select" */
+    property: string;
+    /** BCD ids of the browsers that need the missing prefixes */
+    browsers: string[];
+    fix: FeatureFix;
+}
+
+/**
+ * A text edit that resolves a reported problem, offered as a quick fix
+ */
+export interface FeatureFix {
+    title: string;
+    range: vscode.Range;
+    newText: string;
+}
+
+/**
+ * A feature-detection guard around a feature, such as an enclosing @supports
+ * rule or a JavaScript feature check, so the feature only runs in browsers
+ * that support it
+ */
+export interface FeatureGuard {
+    kind: 'supports' | 'feature-detection';
+    /** The guard as written, e.g. "@supports (display: grid)" or "'share' in navigator" */
+    description: string;
+}
+
+/**
+ * Standardization status of a feature, from the BCD status block
+ */
+export interface FeatureStandardStatus {
+    deprecated: boolean;
+    standardTrack: boolean;
+    experimental: boolean;
+}
+
+/**
+ * A single browser requirement resolved from the custom browser matrix
+ */
+export interface BrowserTarget {
+    browser: string;
+    version: string;
+}
+
+/**
+ * A Baseline policy: either every feature that became Baseline in or before a
+ * given year, or every feature that was widely available on a given date
+ */
+export type BaselineTarget =
+    | { mode: 'year'; year: number }
+    | { mode: 'widely_available'; date?: string };
+
+/**
+ * Outcome of checking a feature's Baseline dates against the Baseline target
+ */
+export interface BaselineTargetResult {
+    target: BaselineTarget;
+    label: string;
+    meetsTarget: boolean;
+    /** The Baseline date the target was compared with, if the feature has one */
+    date?: string;
+}
+
+/**
+ * Share of global browser usage that supports a feature, compared with the
+ * configured support threshold
+ */
+export interface AudienceSupport {
+    percentage: number;
+    threshold: number;
+    meetsThreshold: boolean;
+}
+
+/**
+ * Outcome of checking a feature against one browser target
+ */
+export interface BrowserTargetResult {
+    browser: string;
+    targetVersion: string;
+    versionAdded: string | boolean | null;
+    supported: boolean;
+    /** Why existing support does not count, e.g. it is prefixed or partial */
+    caveat?: string;
 }
 
 export interface BaselineStatus {
@@ -17,14 +116,30 @@ export interface BaselineStatus {
     high_date?: string;
     low_date?: string;
     support: {
-        [browser: string]: {
-            version_added: string | boolean;
-            version_removed?: string | boolean;
-            notes?: string;
-        };
+        [browser: string]: BrowserSupport;
     };
 }
 
+/**
+ * Support for a feature in one browser. When only prefixed, renamed, flagged
+ * or since-removed support exists, those details are kept alongside it.
+ */
+export interface BrowserSupport {
+    version_added: string | boolean;
+    version_removed?: string | boolean;
+    notes?: string;
+    partial_implementation?: boolean;
+    prefix?: string;
+    alternative_name?: string;
+    flags?: BrowserSupportFlag[];
+}
+
+export interface BrowserSupportFlag {
+    type: 'preference' | 'runtime_flag';
+    name: string;
+    value_to_set?: string;
+}
+
 export interface AnalysisResult {
     features: DetectedFeature[];
     diagnostics: vscode.Diagnostic[];
@@ -37,11 +152,20 @@ export interface ExtensionConfig {
     showInlineIndicators: boolean;
     diagnosticSeverity: 'error' | 'warning' | 'info';
     customBrowserMatrix: string[];
+    coreBrowsers: string[];
+    browserslist: string[];
+    useBrowserslistConfig: boolean;
+    baselineTarget: string;
+    dataSnapshotPath: string;
     excludePatterns: string[];
     baselineStatusMapping: {
         widely_available: 'error' | 'warning' | 'info' | 'none';
         newly_available: 'error' | 'warning' | 'info' | 'none';
         limited_availability: 'error' | 'warning' | 'info' | 'none';
+        /** Deprecated or non-standard features, regardless of their Baseline status */
+        deprecated: 'error' | 'warning' | 'info' | 'none';
+        /** Features guarded by a matching feature check such as @supports or 'fetch' in window; 'none' hides them */
+        guarded: 'error' | 'warning' | 'info' | 'none';
     };
     enabledAnalyzers: {
         css: boolean;
@@ -60,6 +184,11 @@ export interface TeamConfig {
     extends?: string;
     supportThreshold?: number;
     customBrowserMatrix?: string[];
+    coreBrowsers?: string[];
+    browserslist?: string[];
+    useBrowserslistConfig?: boolean;
+    baselineTarget?: string;
+    dataSnapshotPath?: string;
     excludePatterns?: string[];
     baselineStatusMapping?: Partial<ExtensionConfig['baselineStatusMapping']>;
     enabledAnalyzers?: Partial<ExtensionConfig['enabledAnalyzers']>;
@@ -70,6 +199,29 @@ export interface TeamConfig {
     };
 }
 
+/**
+ * Where the active compatibility data came from and which versions are loaded
+ */
+export interface CompatibilityDataVersion {
+    source: 'bundled' | 'snapshot';
+    webFeatures: string;
+    bcd: string;
+    snapshotPath?: string;
+}
+
+/**
+ * Group and snapshot definitions published alongside web-features data.
+ * Groups form a hierarchy through their parent, e.g. "Layout" under "CSS".
+ */
+export interface WebFeatureCatalog {
+    groups: {
+        [groupId: string]: { name: string; parent?: string };
+    };
+    snapshots: {
+        [snapshotId: string]: { name: string; spec?: string };
+    };
+}
+
 export interface WebFeature {
     id: string;
     name: string;
@@ -155,6 +307,61 @@ export interface FeatureUsage {
     locations: FileLocation[];
     riskLevel: 'low' | 'medium' | 'high';
     usageCount: number;
+    supportedAudience?: number;
+    browserSupport?: {
+        [browser: string]: string | boolean | null;
+    };
+}
+
+/**
+ * How a feature's compatibility data changed between two datasets
+ */
+export type FeatureDataChangeType =
+    | 'status_upgrade'
+    | 'status_downgrade'
+    | 'support_regression'
+    | 'support_change'
+    | 'date_change'
+    | 'added'
+    | 'removed';
+
+/**
+ * A browser whose support data differs between two datasets
+ */
+export interface BrowserSupportChange {
+    browser: string;
+    previous: string | boolean | null;
+    current: string | boolean | null;
+}
+
+/**
+ * A feature used in the workspace whose compatibility data changed
+ */
+export interface FeatureDataChange {
+    featureId: string;
+    name: string;
+    changeType: FeatureDataChangeType;
+    previousStatus?: BaselineStatus['status'];
+    currentStatus?: BaselineStatus['status'];
+    previousLowDate?: string;
+    currentLowDate?: string;
+    previousHighDate?: string;
+    currentHighDate?: string;
+    supportChanges: BrowserSupportChange[];
+    locations: FileLocation[];
+}
+
+/**
+ * Impact of a compatibility data update on the features used in the workspace
+ */
+export interface DataUpdateReport {
+    previousData: CompatibilityDataVersion;
+    currentData: CompatibilityDataVersion;
+    changes: FeatureDataChange[];
+    unchangedFeatures: number;
+    generatedAt: Date;
+    projectPath: string;
+    analyzedFiles: number;
 }
 
 export interface FileLocation {
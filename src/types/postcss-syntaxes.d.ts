@@ -0,0 +1,22 @@
+// Type declarations for the PostCSS preprocessor syntaxes that do not ship their own
+
+declare module 'postcss-less' {
+    import * as postcss from 'postcss';
+
+    export const parse: postcss.Parser<postcss.Root>;
+    export const stringify: postcss.Stringifier;
+}
+
+declare module 'postcss-sass' {
+    import * as postcss from 'postcss';
+
+    export const parse: postcss.Parser<postcss.Root>;
+    export const stringify: postcss.Stringifier;
+}
+
+declare module 'postcss-styl' {
+    import * as postcss from 'postcss';
+
+    export const parse: postcss.Parser<postcss.Root>;
+    export const stringify: postcss.Stringifier;
+}
@@ -1,4 +1,6 @@
 const path = require('path');
+const webpack = require('webpack');
+const webFeaturesPackage = require('./node_modules/web-features/package.json');
 
 /**@type {import('webpack').Configuration}*/
 const config = {
@@ -12,12 +14,14 @@ const config = {
     filename: 'extension.js',
     libraryTarget: 'commonjs2'
   },
+  // node_modules is not packaged (see .vscodeignore), so everything else, including the
+  // TypeScript compiler used to parse TypeScript files, has to be bundled
   externals: {
     vscode: 'commonjs vscode' // the vscode-module is created on-the-fly and must be excluded. Add other modules that cannot be webpack'ed, 📖 -> https://webpack.js.org/configuration/externals/
   },
   resolve: {
     // support reading TypeScript and JavaScript files, 📖 -> https://github.com/TypeStrong/ts-loader
-    extensions: ['.ts', '.js']
+    extensions: ['.ts', '.js', '.json']
   },
   module: {
     rules: [
@@ -32,6 +36,12 @@ const config = {
       }
     ]
   },
+  plugins: [
+    // web-features does not export its package.json, so its version is read here
+    new webpack.DefinePlugin({
+      WEB_FEATURES_VERSION: JSON.stringify(webFeaturesPackage.version)
+    })
+  ],
   devtool: 'nosources-source-map',
   infrastructureLogging: {
     level: "log", // enables logging required for problem matchers